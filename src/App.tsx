@@ -5,18 +5,36 @@ import { QRScanner } from './components/QRScanner';
 import { EmployeeManagement } from './components/EmployeeManagement';
 import { Reports } from './components/Reports';
 import { Roster } from './components/Roster';
+import { AttendanceCorrection } from './components/AttendanceCorrection';
+import { LeaveManagement } from './components/LeaveManagement';
 import { Settings } from './components/Settings';
 import { SplashScreen } from './components/SplashScreen';
+import { PhoneBadge } from './components/PhoneBadge';
+import { KioskMode } from './components/KioskMode';
+import Swal from 'sweetalert2';
 import { notificationService } from './lib/notifications';
 import { oneSignalService } from './lib/oneSignalService';
+import { loadOrganisationTimeZone } from './lib/attendanceSettings';
+import { absenceMonitor } from './lib/absenceCalculator';
+import { autoCheckOutService } from './lib/autoCheckOut';
+import { enterKioskMode, isKioskModeActive, requestKioskFullscreen } from './lib/kioskMode';
+
+// Employee phones open the app at #badge=<token> to show their rotating QR code
+const phoneBadgeToken = window.location.hash.startsWith('#badge=')
+  ? window.location.hash.slice('#badge='.length)
+  : null;
 
 function App() {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [showSplash, setShowSplash] = useState(true);
   const [showScanner, setShowScanner] = useState(false);
+  const [kioskMode, setKioskMode] = useState(isKioskModeActive());
   const [appReady, setAppReady] = useState(false);
 
   useEffect(() => {
+    // A phone badge is standalone and must not run the admin background jobs
+    if (phoneBadgeToken) return;
+
     // Initialize critical services only
     const initializeApp = async () => {
       try {
@@ -25,6 +43,9 @@ function App() {
         
         // Initialize OneSignal push notifications
         oneSignalService.initialize().catch(console.warn);
+
+        // Load the organisation timezone used for attendance days
+        loadOrganisationTimeZone().catch(console.warn);
         
         // Mark app as ready
         setAppReady(true);
@@ -37,6 +58,19 @@ function App() {
     initializeApp();
   }, []);
 
+  // Send absence alerts once the daily cut-off time has passed and close sessions left open past the
+  // auto check-out policy; a gate tablet in kiosk mode leaves both to the office
+  useEffect(() => {
+    if (phoneBadgeToken || kioskMode) return;
+
+    absenceMonitor.start();
+    autoCheckOutService.start();
+    return () => {
+      absenceMonitor.stop();
+      autoCheckOutService.stop();
+    };
+  }, [kioskMode]);
+
   const handleSplashComplete = () => {
     setShowSplash(false);
   };
@@ -55,6 +89,52 @@ function App() {
     setActiveTab('dashboard');
   };
 
+  const handleStartKiosk = async () => {
+    // Must be requested from the click itself, before any await
+    requestKioskFullscreen();
+    // The admin PIN is asked for up front, so the tablet is never locked with a PIN nobody knows
+    const { isConfirmed } = await Swal.fire({
+      title: 'Start Kiosk Mode',
+      input: 'password',
+      inputLabel: 'Kiosk admin PIN',
+      inputAttributes: { inputmode: 'numeric', autocomplete: 'off' },
+      showCancelButton: true,
+      confirmButtonText: 'Lock Tablet',
+      confirmButtonColor: '#3B82F6',
+      showLoaderOnConfirm: true,
+      preConfirm: async (pin: string) => {
+        try {
+          await enterKioskMode(pin || '');
+          return true;
+        } catch (error: unknown) {
+          Swal.showValidationMessage((error as Error).message || 'Failed to start kiosk mode');
+          return false;
+        }
+      },
+    });
+
+    if (isConfirmed) {
+      setShowScanner(false);
+      setKioskMode(true);
+    } else if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    }
+  };
+
+  const handleExitKiosk = () => {
+    setKioskMode(false);
+    setActiveTab('dashboard');
+  };
+
+  if (phoneBadgeToken) {
+    return <PhoneBadge token={phoneBadgeToken} />;
+  }
+
+  // A locked tablet goes straight back to the scanner after a reload
+  if (kioskMode) {
+    return <KioskMode onExit={handleExitKiosk} />;
+  }
+
   // Show splash screen until ready
   if (showSplash) {
     return <SplashScreen onComplete={handleSplashComplete} />;
@@ -70,6 +150,10 @@ function App() {
         return <Reports />;
       case 'roster':
         return <Roster />;
+      case 'leave':
+        return <LeaveManagement />;
+      case 'corrections':
+        return <AttendanceCorrection />;
       case 'settings':
         return <Settings />;
       default:
@@ -81,7 +165,7 @@ function App() {
     <div className="min-h-screen bg-gray-50">
       <Navigation activeTab={activeTab} onTabChange={handleTabChange} />
       {renderActiveComponent()}
-      {showScanner && <QRScanner onClose={handleCloseScanner} />}
+      {showScanner && <QRScanner onClose={handleCloseScanner} onStartKiosk={handleStartKiosk} />}
     </div>
   );
 }
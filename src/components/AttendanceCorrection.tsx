@@ -0,0 +1,481 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Camera,
+  ClipboardPenLine,
+  History,
+  ListChecks,
+  Plus,
+  RefreshCw,
+  Save,
+  Search,
+  Trash2
+} from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import Swal from 'sweetalert2';
+import { AttendanceSession, getSessions } from '../lib/attendanceEngine';
+import { loadOrganisationTimeZone } from '../lib/attendanceSettings';
+import {
+  AttendanceAuditEntry,
+  AttendanceSnapshot,
+  CORRECTION_EDITOR_STORAGE_KEY,
+  fetchAuditTrail,
+  rebuildFromScanLog,
+  saveAttendanceCorrection
+} from '../lib/attendanceCorrections';
+import { fetchScanEvents, ScanEvent, ScanEventOutcome } from '../lib/scanEvents';
+import { fetchScannerDevices, ScannerDevice } from '../lib/scannerDevices';
+import { PunchPhoto, fetchPunchPhotos } from '../lib/punchPhotos';
+import { PunchPhotoThumb } from './PunchPhotoThumb';
+import { addBusinessDays, formatInTimeZone, getBusinessDate, zonedDateTimeToUtc } from '../utils/dateTime';
+
+interface Employee {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface SessionRow {
+  checkIn: string;
+  checkOut: string;
+}
+
+const OUTCOME_STYLES: Record<ScanEventOutcome, string> = {
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-amber-100 text-amber-800',
+  invalid: 'bg-red-100 text-red-800',
+};
+
+const describeSessions = (snapshot: AttendanceSnapshot | null): string => {
+  if (!snapshot || snapshot.sessions.length === 0) return 'No punches';
+  return snapshot.sessions
+    .map(session => `${formatInTimeZone(session.check_in, 'HH:mm')}-${session.check_out ? formatInTimeZone(session.check_out, 'HH:mm') : '?'}`)
+    .join(', ') + ` (${snapshot.total_hours.toFixed(2)}h${snapshot.is_late ? `, late ${snapshot.late_duration}m` : ''})`;
+};
+
+export const AttendanceCorrection: React.FC = () => {
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [employeeId, setEmployeeId] = useState('');
+  const [date, setDate] = useState(getBusinessDate());
+  const [rows, setRows] = useState<SessionRow[]>([]);
+  const [hasRecord, setHasRecord] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [reason, setReason] = useState('');
+  const [changedBy, setChangedBy] = useState(localStorage.getItem(CORRECTION_EDITOR_STORAGE_KEY) || '');
+  const [auditTrail, setAuditTrail] = useState<AttendanceAuditEntry[]>([]);
+  const [photos, setPhotos] = useState<Array<PunchPhoto & { url: string }>>([]);
+  const [scanEvents, setScanEvents] = useState<ScanEvent[]>([]);
+  const [devices, setDevices] = useState<ScannerDevice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadOrganisationTimeZone().then(() => setDate(getBusinessDate()));
+    fetchEmployees();
+    fetchScannerDevices()
+      .then(setDevices)
+      .catch(error => console.error('Error fetching scanner devices:', error));
+  }, []);
+
+  useEffect(() => {
+    setLoaded(false);
+  }, [employeeId, date]);
+
+  const fetchEmployees = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('id, first_name, last_name')
+        .eq('is_active', true)
+        .order('first_name');
+
+      if (error) throw error;
+      setEmployees(data || []);
+    } catch (error) {
+      console.error('Error fetching employees:', error);
+    }
+  };
+
+  const loadDay = async () => {
+    if (!employeeId || !date) return;
+
+    setLoading(true);
+    try {
+      const { data: record, error } = await supabase
+        .from('attendance_records')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .eq('date', date)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const sessions = getSessions(record);
+      setHasRecord(!!record);
+      setRows(sessions.length > 0
+        ? sessions.map(session => ({
+            checkIn: formatInTimeZone(session.check_in, 'HH:mm'),
+            checkOut: session.check_out ? formatInTimeZone(session.check_out, 'HH:mm') : '',
+          }))
+        : [{ checkIn: '', checkOut: '' }]);
+      setAuditTrail(await fetchAuditTrail(employeeId, date));
+      setScanEvents(await fetchScanEvents(employeeId, date));
+      // Photos are evidence only, so the day still loads without them
+      const dayPhotos = await fetchPunchPhotos(date, date, employeeId).catch(photoError => {
+        console.error('Error fetching punch photos:', photoError);
+        return null;
+      });
+      setPhotos(dayPhotos?.get(`${employeeId}_${date}`) || []);
+      setReason('');
+      setLoaded(true);
+    } catch (error) {
+      console.error('Error loading attendance:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: 'Failed to load attendance for this day',
+        confirmButtonColor: '#EF4444',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRow = (index: number, field: keyof SessionRow, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  /**
+   * Turns the entered wall-clock times into instants. Each time is on the
+   * selected date unless it is earlier than the punch before it, in which case
+   * it rolled over midnight (overnight shifts).
+   */
+  const toSessions = (): AttendanceSession[] => {
+    let day = date;
+    let previous: Date | null = null;
+
+    const toInstant = (time: string): Date => {
+      let instant = zonedDateTimeToUtc(day, time);
+      if (previous && instant.getTime() < previous.getTime()) {
+        day = addBusinessDays(day, 1);
+        instant = zonedDateTimeToUtc(day, time);
+      }
+      previous = instant;
+      return instant;
+    };
+
+    return rows
+      .filter(row => row.checkIn)
+      .map(row => ({
+        check_in: toInstant(row.checkIn).toISOString(),
+        check_out: row.checkOut ? toInstant(row.checkOut).toISOString() : null,
+      }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveAttendanceCorrection({
+        employeeId,
+        date,
+        sessions: toSessions(),
+        reason,
+        changedBy,
+      });
+      localStorage.setItem(CORRECTION_EDITOR_STORAGE_KEY, changedBy.trim());
+
+      await Swal.fire({
+        icon: 'success',
+        title: 'Saved',
+        text: 'Attendance updated and recorded in the audit trail',
+        timer: 2000,
+        showConfirmButton: false,
+      });
+      await loadDay();
+    } catch (error: unknown) {
+      console.error('Error saving correction:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: (error as Error).message || 'Failed to save the correction',
+        confirmButtonColor: '#EF4444',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRebuild = async () => {
+    const result = await Swal.fire({
+      title: 'Rebuild from scan log?',
+      text: 'The punches for this day are replaced by the logged scans under the current rules, including any manual correction.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#4F46E5',
+      cancelButtonColor: '#6B7280',
+      confirmButtonText: 'Yes, rebuild',
+    });
+    if (!result.isConfirmed) return;
+
+    setSaving(true);
+    try {
+      await rebuildFromScanLog({ employeeId, date, reason, changedBy });
+      localStorage.setItem(CORRECTION_EDITOR_STORAGE_KEY, changedBy.trim());
+      await loadDay();
+    } catch (error: unknown) {
+      console.error('Error rebuilding attendance:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: (error as Error).message || 'Failed to rebuild from the scan log',
+        confirmButtonColor: '#EF4444',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-blue-100 p-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Attendance Corrections
+          </h1>
+          <p className="text-gray-600">
+            Enter missed punches or fix wrong ones. Every change needs a reason and is kept in the audit trail.
+          </p>
+        </div>
+
+        {/* Selection */}
+        <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+              <select
+                value={employeeId}
+                onChange={(e) => setEmployeeId(e.target.value)}
+                className="input-field"
+                title="Select employee"
+                aria-label="Select employee"
+              >
+                <option value="">Select employee</option>
+                {employees.map(employee => (
+                  <option key={employee.id} value={employee.id}>
+                    {employee.first_name} {employee.last_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="input-field"
+                title="Attendance date"
+                aria-label="Attendance date"
+              />
+            </div>
+            <button
+              onClick={loadDay}
+              disabled={!employeeId || !date || loading}
+              className="btn-primary flex items-center justify-center"
+            >
+              <Search className="h-4 w-4 mr-2" />
+              {loading ? 'Loading...' : 'Load Day'}
+            </button>
+          </div>
+        </div>
+
+        {loaded && (
+          <>
+            {/* Punches */}
+            <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center">
+                  <ClipboardPenLine className="h-6 w-6 text-indigo-600 mr-2" />
+                  <h3 className="text-xl font-semibold text-gray-900">
+                    {hasRecord ? 'Edit Punches' : 'New Attendance Entry'}
+                  </h3>
+                </div>
+                <button
+                  onClick={() => setRows(prev => [...prev, { checkIn: '', checkOut: '' }])}
+                  className="btn-secondary flex items-center text-sm"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Session
+                </button>
+              </div>
+
+              <div className="space-y-3">
+                {rows.map((row, index) => (
+                  <div key={index} className="grid grid-cols-6 gap-3 items-center">
+                    <span className="col-span-1 text-sm font-medium text-gray-600">Session {index + 1}</span>
+                    <input
+                      type="time"
+                      value={row.checkIn}
+                      onChange={(e) => updateRow(index, 'checkIn', e.target.value)}
+                      className="input-field col-span-2"
+                      title={`Session ${index + 1} check-in`}
+                      aria-label={`Session ${index + 1} check-in`}
+                    />
+                    <input
+                      type="time"
+                      value={row.checkOut}
+                      onChange={(e) => updateRow(index, 'checkOut', e.target.value)}
+                      className="input-field col-span-2"
+                      title={`Session ${index + 1} check-out`}
+                      aria-label={`Session ${index + 1} check-out`}
+                    />
+                    <button
+                      onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-800 justify-self-center"
+                      title="Remove session"
+                      aria-label="Remove session"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-gray-500 mt-3">
+                A time earlier than the punch before it is taken as the next day. Leave the last check-out empty if the employee is still at work.
+              </p>
+
+              {photos.length > 0 && (
+                <div className="mt-4">
+                  <div className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                    <Camera className="h-4 w-4 mr-1" />
+                    Scan Photos
+                  </div>
+                  <div className="flex flex-wrap gap-3">
+                    {photos.map(photo => (
+                      <div key={photo.id} className="text-center">
+                        <PunchPhotoThumb photo={photo} size="md" />
+                        <div className="text-xs text-gray-500 mt-1">
+                          {photo.action === 'check-in' ? 'In' : 'Out'} {formatInTimeZone(photo.punched_at, 'HH:mm')}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    rows={2}
+                    className="input-field"
+                    placeholder="e.g. Scanner was offline, punch confirmed by supervisor"
+                    title="Reason for the correction"
+                    aria-label="Reason for the correction"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Changed By</label>
+                  <input
+                    type="text"
+                    value={changedBy}
+                    onChange={(e) => setChangedBy(e.target.value)}
+                    className="input-field"
+                    placeholder="Your name"
+                    title="Who is making the correction"
+                    aria-label="Who is making the correction"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-3 mt-6">
+                <button
+                  onClick={handleRebuild}
+                  disabled={saving || scanEvents.length === 0 || !reason.trim() || !changedBy.trim()}
+                  className="btn-secondary flex items-center"
+                  title="Replace the punches with the logged scans under the current rules"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Rebuild from Scan Log
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !reason.trim() || !changedBy.trim()}
+                  className="btn-success flex items-center"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save Correction'}
+                </button>
+              </div>
+            </div>
+
+            {/* Scan Log */}
+            <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+              <div className="flex items-center mb-4">
+                <ListChecks className="h-6 w-6 text-gray-600 mr-2" />
+                <h3 className="text-xl font-semibold text-gray-900">Scan Log</h3>
+              </div>
+              {scanEvents.length === 0 ? (
+                <p className="text-sm text-gray-500">No scans logged for this day</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {scanEvents.map(event => (
+                    <li key={event.id} className="py-2 text-sm flex flex-wrap items-center gap-x-3">
+                      <span className="font-mono text-gray-900">{formatInTimeZone(event.scanned_at, 'HH:mm:ss')}</span>
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${OUTCOME_STYLES[event.outcome]}`}>
+                        {event.outcome}
+                      </span>
+                      {event.action && <span className="text-gray-700">{event.action}</span>}
+                      {event.reason && <span className="text-gray-600">{event.reason}</span>}
+                      <span className="text-gray-400 ml-auto">
+                        {devices.find(device => device.id === event.device_id)?.name || 'Unknown scanner'}
+                        {event.source === 'offline_queue' ? ' (offline)' : ''}
+                        {event.source === 'image' ? ' (from photo)' : ''}
+                        {event.method === 'pin' ? ' (PIN)' : ''}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-sm text-gray-500 mt-3">
+                Every scan is kept as it happened, including refused ones. Rebuilding re-applies the current rules to the accepted and rejected scans.
+              </p>
+            </div>
+
+            {/* Audit Trail */}
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <div className="flex items-center mb-4">
+                <History className="h-6 w-6 text-gray-600 mr-2" />
+                <h3 className="text-xl font-semibold text-gray-900">Audit Trail</h3>
+              </div>
+              {auditTrail.length === 0 ? (
+                <p className="text-sm text-gray-500">No manual changes for this day</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {auditTrail.map(entry => (
+                    <li key={entry.id} className="py-3 text-sm">
+                      <div className="flex justify-between">
+                        <span className="font-medium text-gray-900">
+                          {entry.action === 'create' ? 'Created' : 'Edited'} by {entry.changed_by}
+                        </span>
+                        <span className="text-gray-500">
+                          {formatInTimeZone(entry.created_at, 'dd/MM/yyyy HH:mm')}
+                        </span>
+                      </div>
+                      <p className="text-gray-600 mt-1">{entry.reason}</p>
+                      <p className="text-gray-500 mt-1">
+                        {describeSessions(entry.before)} &rarr; {describeSessions(entry.after)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -10,16 +10,26 @@ import {
   Building2
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { format } from 'date-fns';
+import { loadOrganisationTimeZone } from '../lib/attendanceSettings';
+import { calculateAbsences } from '../lib/absenceCalculator';
+import { fetchApprovedLeave, LeaveType } from '../lib/leaveService';
+import { fetchWorkCalendar, getPremiumLabel } from '../lib/workCalendar';
+import { addBusinessDays, formatInTimeZone, getBusinessDate } from '../utils/dateTime';
+import { describePunch, getLatestPunch, getSessions, isOvernightShift } from '../lib/attendanceEngine';
 
 interface DashboardStats {
   totalEmployees: number;
   presentToday: number;
+  onLeaveToday: number;
   lateArrivals: number;
   totalHoursToday: number;
+  // Holiday name or 'Rest day' when today is not a working day
+  premiumDay: string | null;
   departmentStats: Array<{
     department: string;
     present: number;
+    absent: number;
+    onLeave: number;
     total: number;
   }>;
   recentActivity: Array<{
@@ -34,8 +44,10 @@ export const Dashboard: React.FC = () => {
   const [stats, setStats] = useState<DashboardStats>({
     totalEmployees: 0,
     presentToday: 0,
+    onLeaveToday: 0,
     lateArrivals: 0,
     totalHoursToday: 0,
+    premiumDay: null,
     departmentStats: [],
     recentActivity: []
   });
@@ -60,39 +72,98 @@ export const Dashboard: React.FC = () => {
 
   const fetchDashboardStats = async () => {
     try {
-      const today = format(new Date(), 'yyyy-MM-dd');
+      await loadOrganisationTimeZone();
+      const today = getBusinessDate();
       
-      // Fetch total employees
-      const { count: totalEmployees } = await supabase
+      // Fetch active employees for the headline and department totals
+      const { data: activeEmployees } = await supabase
         .from('employees')
-        .select('id', { count: 'exact' })
+        .select('id, departments(name)')
         .eq('is_active', true);
 
-      // Fetch today's attendance
-      const { data: todayAttendance } = await supabase
-        .from('attendance_records')
-        .select(`
-          *,
-          employees!inner(first_name, last_name, departments(name))
-        `)
-        .eq('date', today);
+      // Fetch today's attendance, plus overnight shifts from yesterday that are still open
+      const yesterday = addBusinessDays(today, -1);
+      const [{ data: recentAttendance }, { data: yesterdayRosters }] = await Promise.all([
+        supabase
+          .from('attendance_records')
+          .select(`
+            *,
+            employees!inner(first_name, last_name, departments(name))
+          `)
+          .in('date', [yesterday, today]),
+        supabase
+          .from('rosters')
+          .select('employee_id, shift_start, shift_end')
+          .eq('date', yesterday),
+      ]);
+
+      // A check-in left open from yesterday only means present when that shift runs past midnight
+      const overnightYesterday = new Set(
+        (yesterdayRosters || [])
+          .filter(roster => roster.shift_start && roster.shift_end && isOvernightShift(roster.shift_start, roster.shift_end))
+          .map(roster => roster.employee_id)
+      );
+
+      const todayAttendance = recentAttendance?.filter(record =>
+        record.date === today || (
+          overnightYesterday.has(record.employee_id) &&
+          getLatestPunch(getSessions(record))?.action === 'check-in' &&
+          !recentAttendance.some(other => other.employee_id === record.employee_id && other.date === today)
+        )
+      );
 
       // Calculate stats
       const presentToday = todayAttendance?.length || 0;
       const lateArrivals = todayAttendance?.filter(record => record.is_late).length || 0;
       const totalHoursToday = todayAttendance?.reduce((sum, record) => sum + (record.total_hours || 0), 0) || 0;
 
+      // Absences only count once today's cut-off time has passed; approved leave shows all day
+      const [absences, leaveDays, calendar] = await Promise.all([
+        calculateAbsences(today, today).catch(error => {
+          console.error('Error calculating absences:', error);
+          return [];
+        }),
+        fetchApprovedLeave(today, today).catch(error => {
+          console.error('Error fetching approved leave:', error);
+          return new Map<string, LeaveType>();
+        }),
+        fetchWorkCalendar(today, today).catch(error => {
+          console.error('Error fetching work calendar:', error);
+          return null;
+        }),
+      ]);
+
       // Department stats
-      const departmentMap = new Map();
+      const departmentMap = new Map<string, { present: number; absent: number; onLeave: number; total: number }>();
+      const getDepartment = (name?: string) => {
+        const department = name || 'General';
+        if (!departmentMap.has(department)) {
+          departmentMap.set(department, { present: 0, absent: 0, onLeave: 0, total: 0 });
+        }
+        return departmentMap.get(department)!;
+      };
+
+      const presentIds = new Set(todayAttendance?.map(record => record.employee_id));
+      let onLeaveToday = 0;
+      activeEmployees?.forEach((employee) => {
+        const department = Array.isArray(employee.departments) ? employee.departments[0] : employee.departments;
+        const counts = getDepartment(department?.name);
+        counts.total++;
+        if (leaveDays.has(`${employee.id}_${today}`) && !presentIds.has(employee.id)) {
+          counts.onLeave++;
+          onLeaveToday++;
+        }
+      });
       todayAttendance?.forEach(record => {
-        const dept = record.employees.departments?.name || 'General';
-        departmentMap.set(dept, (departmentMap.get(dept) || 0) + 1);
+        getDepartment(record.employees.departments?.name).present++;
+      });
+      absences.filter(absence => absence.reason !== 'leave').forEach(absence => {
+        getDepartment(absence.employees.departments?.name).absent++;
       });
 
-      const departmentStats = Array.from(departmentMap.entries()).map(([department, present]) => ({
+      const departmentStats = Array.from(departmentMap.entries()).map(([department, counts]) => ({
         department,
-        present: present as number,
-        total: present as number // Simplified - would need actual department totals
+        ...counts
       }));
 
       // Recent activity
@@ -104,10 +175,12 @@ export const Dashboard: React.FC = () => {
       })) || [];
 
       setStats({
-        totalEmployees: totalEmployees || 0,
+        totalEmployees: activeEmployees?.length || 0,
         presentToday,
+        onLeaveToday,
         lateArrivals,
         totalHoursToday,
+        premiumDay: calendar ? getPremiumLabel(calendar, today) : null,
         departmentStats,
         recentActivity
       });
@@ -119,22 +192,13 @@ export const Dashboard: React.FC = () => {
   };
 
   const getLatestAction = (record: any) => {
-    if (record.second_check_out) return 'Second Check Out';
-    if (record.second_check_in) return 'Second Check In';
-    if (record.first_check_out) return 'First Check Out';
-    if (record.first_check_in) return 'First Check In';
-    return 'Unknown';
+    const latest = getLatestPunch(getSessions(record));
+    return latest ? describePunch(latest) : 'Unknown';
   };
 
   const getLatestTime = (record: any) => {
-    const times = [
-      record.second_check_out,
-      record.second_check_in,
-      record.first_check_out,
-      record.first_check_in
-    ].filter(Boolean);
-    
-    return times.length > 0 ? format(new Date(times[0]), 'HH:mm') : '';
+    const latest = getLatestPunch(getSessions(record));
+    return latest ? formatInTimeZone(latest.time, 'HH:mm') : '';
   };
 
   if (loading) {
@@ -154,8 +218,14 @@ export const Dashboard: React.FC = () => {
             Attendance Dashboard
           </h1>
           <p className="text-responsive-sm text-gray-600">
-            Real-time overview for {format(new Date(), 'MMMM dd, yyyy')}
+            Real-time overview for {formatInTimeZone(new Date(), 'MMMM dd, yyyy')}
           </p>
+          {stats.premiumDay && (
+            <p className="inline-flex items-center mt-2 px-3 py-1 rounded-full bg-rose-100 text-rose-700 text-responsive-xs font-medium">
+              <Calendar className="h-4 w-4 mr-1" />
+              {stats.premiumDay} - not counted as absence, attendance is paid at a premium
+            </p>
+          )}
         </div>
 
         {/* Stats Grid */}
@@ -178,6 +248,9 @@ export const Dashboard: React.FC = () => {
                 <div>
                   <p className="text-responsive-xs font-medium text-gray-600">Present Today</p>
                   <p className="text-responsive-xl font-bold text-gray-900">{stats.presentToday}</p>
+                  {stats.onLeaveToday > 0 && (
+                    <p className="text-responsive-xs text-blue-600">{stats.onLeaveToday} on leave</p>
+                  )}
                 </div>
                 <UserCheck className="h-8 w-8 sm:h-12 sm:w-12 text-green-500" />
               </div>
@@ -228,8 +301,14 @@ export const Dashboard: React.FC = () => {
                       <span className="text-responsive-sm text-gray-700">{dept.department}</span>
                     </div>
                     <div className="flex items-center">
-                      <span className="text-responsive-sm text-gray-900 font-semibold">{dept.present}</span>
+                      <span className="text-responsive-sm text-gray-900 font-semibold">{dept.present}/{dept.total}</span>
                       <span className="text-responsive-xs text-gray-500 ml-1">present</span>
+                      {dept.absent > 0 && (
+                        <span className="text-responsive-xs text-red-600 ml-2">{dept.absent} absent</span>
+                      )}
+                      {dept.onLeave > 0 && (
+                        <span className="text-responsive-xs text-blue-600 ml-2">{dept.onLeave} on leave</span>
+                      )}
                     </div>
                   </div>
                 ))}
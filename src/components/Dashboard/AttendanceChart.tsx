@@ -1,6 +1,9 @@
 import React, { useEffect, useState } from 'react'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { format } from 'date-fns'
 import { supabase } from '../../lib/supabase'
+import { loadOrganisationTimeZone } from '../../lib/attendanceSettings'
+import { getBusinessDate, parseBusinessDate } from '../../utils/dateTime'
 
 interface AttendanceData {
   name: string
@@ -18,15 +21,16 @@ export const AttendanceChart: React.FC = () => {
 
   const fetchWeeklyAttendance = async () => {
     try {
-      const today = new Date()
+      await loadOrganisationTimeZone()
+      const today = parseBusinessDate(getBusinessDate())
       const startOfWeek = new Date(today)
       startOfWeek.setDate(today.getDate() - today.getDay()) // Get last Sunday
       
       const { data: attendanceData, error } = await supabase
         .from('attendance')
         .select('date, check_in')
-        .gte('date', startOfWeek.toISOString().split('T')[0])
-        .lte('date', today.toISOString().split('T')[0])
+        .gte('date', format(startOfWeek, 'yyyy-MM-dd'))
+        .lte('date', format(today, 'yyyy-MM-dd'))
 
       if (error) throw error
 
@@ -44,7 +48,7 @@ export const AttendanceChart: React.FC = () => {
 
       // Count attendance
       attendanceData?.forEach(record => {
-        const date = new Date(record.date)
+        const date = parseBusinessDate(record.date)
         const dayName = days[date.getDay()]
         const dayData = dailyCounts.get(dayName)
         if (dayData) {
@@ -8,9 +8,25 @@ import {
   Upload,
   Download,
   QrCode,
-  Filter
+  Filter,
+  CalendarDays,
+  RefreshCw,
+  KeyRound
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { LEAVE_TYPE_LABELS } from '../lib/leaveService';
+import {
+  AccrualMethod,
+  ENTITLED_LEAVE_TYPES,
+  fetchEntitlements,
+  fetchLeaveBalances,
+  LeaveBalance,
+  saveEntitlements
+} from '../lib/leaveBalance';
+import { fetchPhoneBadgeLink, fetchSignedBadge, LEGACY_BADGE_PREFIX } from '../lib/qrCredentials';
+import { BADGE_REISSUE_REASONS, fetchBadgeHistory, reissueBadge } from '../lib/badgeHistory';
+import { EMPLOYEE_PIN_PATTERN, setEmployeePin } from '../lib/employeePins';
+import { formatInTimeZone, getBusinessDate } from '../utils/dateTime';
 import Swal from 'sweetalert2';
 import QRCode from 'qrcode';
 import * as XLSX from 'xlsx';
@@ -23,6 +39,7 @@ interface Employee {
   contact_number: string;
   department_id: string | null;
   qr_code: string;
+  qr_version: number;
   is_active: boolean;
   created_at: string;
   departments?: {
@@ -44,12 +61,20 @@ export const EmployeeManagement: React.FC = () => {
   const [selectedDepartment, setSelectedDepartment] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
+  const [leaveBalances, setLeaveBalances] = useState<Map<string, LeaveBalance[]>>(new Map());
 
   useEffect(() => {
     fetchEmployees();
     fetchDepartments();
   }, []);
 
+  useEffect(() => {
+    const today = getBusinessDate();
+    fetchLeaveBalances(employees.map(emp => emp.id), Number(today.slice(0, 4)), today)
+      .then(setLeaveBalances)
+      .catch(error => console.error('Error fetching leave balances:', error));
+  }, [employees]);
+
   const fetchEmployees = async () => {
     try {
       const { data, error } = await supabase
@@ -89,6 +114,104 @@ export const EmployeeManagement: React.FC = () => {
     }
   };
 
+  const formatDays = (days: number): string => (Number.isInteger(days) ? `${days}` : days.toFixed(1));
+
+  const describeBalances = (employeeId: string): string => {
+    const balances = leaveBalances.get(employeeId);
+    if (!balances) return '-';
+    return balances
+      .map(balance => `${LEAVE_TYPE_LABELS[balance.leaveType]} ${formatDays(balance.balance)}`)
+      .join(' · ');
+  };
+
+  const handleEditEntitlements = async (employee: Employee) => {
+    const year = Number(getBusinessDate().slice(0, 4));
+
+    try {
+      const entitlements = await fetchEntitlements(employee.id, year);
+      const balances = leaveBalances.get(employee.id) || [];
+
+      const rows = entitlements.map(entitlement => {
+        const balance = balances.find(item => item.leaveType === entitlement.leave_type);
+        return `
+          <tr>
+            <td class="py-2 pr-2 font-medium">${LEAVE_TYPE_LABELS[entitlement.leave_type]}</td>
+            <td class="py-2 pr-2"><input id="days-${entitlement.leave_type}" type="number" min="0" step="0.5" value="${entitlement.days}" class="w-20 p-1 border rounded" /></td>
+            <td class="py-2 pr-2">
+              <select id="accrual-${entitlement.leave_type}" class="p-1 border rounded">
+                <option value="annual" ${entitlement.accrual === 'annual' ? 'selected' : ''}>Yearly</option>
+                <option value="monthly" ${entitlement.accrual === 'monthly' ? 'selected' : ''}>Monthly</option>
+              </select>
+            </td>
+            <td class="py-2 pr-2"><input id="cap-${entitlement.leave_type}" type="number" min="0" step="0.5" value="${entitlement.carry_forward_cap}" class="w-20 p-1 border rounded" /></td>
+            <td class="py-2 text-gray-600">${balance ? `${formatDays(balance.used)} used, ${formatDays(balance.balance)} left` : ''}</td>
+          </tr>
+        `;
+      }).join('');
+
+      const result = await Swal.fire({
+        title: `Leave Entitlements ${year}`,
+        html: `
+          <div class="text-left text-sm">
+            <p id="entitlement-employee" class="mb-3"></p>
+            <table class="w-full">
+              <thead>
+                <tr class="text-gray-500">
+                  <th class="text-left pr-2">Type</th>
+                  <th class="text-left pr-2">Days</th>
+                  <th class="text-left pr-2">Accrual</th>
+                  <th class="text-left pr-2">Carry Cap</th>
+                  <th class="text-left">Balance</th>
+                </tr>
+              </thead>
+              <tbody>${rows}</tbody>
+            </table>
+            <p class="mt-3 text-gray-500">Monthly accrual earns 1/12 of the days each month. Unused days from last year carry forward up to the cap.</p>
+          </div>
+        `,
+        width: 640,
+        // Set as text, so a name from a bulk upload is never parsed as markup
+        didOpen: () => {
+          (document.getElementById('entitlement-employee') as HTMLElement).textContent =
+            `${employee.first_name} ${employee.last_name}`;
+        },
+        showCancelButton: true,
+        confirmButtonText: 'Save',
+        confirmButtonColor: '#3B82F6',
+        preConfirm: () => ENTITLED_LEAVE_TYPES.map(type => ({
+          employee_id: employee.id,
+          year,
+          leave_type: type,
+          days: Number((document.getElementById(`days-${type}`) as HTMLInputElement).value),
+          accrual: (document.getElementById(`accrual-${type}`) as HTMLSelectElement).value as AccrualMethod,
+          carry_forward_cap: Number((document.getElementById(`cap-${type}`) as HTMLInputElement).value),
+        })),
+      });
+
+      if (!result.isConfirmed || !result.value) return;
+
+      await saveEntitlements(result.value);
+      const today = getBusinessDate();
+      setLeaveBalances(await fetchLeaveBalances(employees.map(emp => emp.id), Number(today.slice(0, 4)), today));
+
+      Swal.fire({
+        icon: 'success',
+        title: 'Saved',
+        text: 'Leave entitlements updated',
+        timer: 2000,
+        showConfirmButton: false,
+      });
+    } catch (error: unknown) {
+      console.error('Error saving leave entitlements:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: (error as Error).message || 'Failed to save leave entitlements',
+        confirmButtonColor: '#3B82F6',
+      });
+    }
+  };
+
   const generateQRCode = async (qrCodeData: string): Promise<string> => {
     try {
       return await QRCode.toDataURL(qrCodeData, {
@@ -112,17 +235,14 @@ export const EmployeeManagement: React.FC = () => {
       const contactNumber = formData.get('contactNumber') as string;
       const departmentId = formData.get('departmentId') as string;
 
-      // Generate unique QR code
-      const qrCode = `EMP_${Date.now()}_${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
-
       const { error } = await supabase
         .from('employees')
+        // The badge secret and signed qr_code are created by the database on insert
         .insert({
           first_name: firstName,
           last_name: lastName,
           contact_number: contactNumber,
           department_id: departmentId || null,
-          qr_code: qrCode,
         });
 
       if (error) throw error;
@@ -228,30 +348,190 @@ export const EmployeeManagement: React.FC = () => {
     }
   };
 
+  const showBadgeError = (error: unknown) => {
+    console.error('Error loading badge:', error);
+    Swal.fire({
+      icon: 'error',
+      title: 'Error',
+      text: (error as Error).message || 'Failed to load the badge',
+      confirmButtonColor: '#3B82F6',
+    });
+  };
+
   const handleShowQRCode = async (employee: Employee) => {
-    const qrCodeDataURL = await generateQRCode(employee.qr_code);
+    // Always the signed badge, from the server that holds the secret; a legacy EMP_ code is
+    // only kept for scanning during the migration window
+    let badge: string;
+    try {
+      badge = await fetchSignedBadge(employee.id);
+    } catch (error: unknown) {
+      showBadgeError(error);
+      return;
+    }
+    const qrCodeDataURL = await generateQRCode(badge);
     
     Swal.fire({
       title: `${employee.first_name} ${employee.last_name}`,
       html: `
         <div class="text-center">
           <img src="${qrCodeDataURL}" alt="QR Code" class="mx-auto mb-4" />
-          <p class="text-gray-600">QR Code: ${employee.qr_code}</p>
+          <p class="text-gray-600">Signed badge, version ${employee.qr_version}</p>
         </div>
       `,
       width: 400,
+      showDenyButton: true,
       confirmButtonColor: '#3B82F6',
+      denyButtonColor: '#0EA5E9',
       confirmButtonText: 'Download QR Code',
+      denyButtonText: 'Phone Badge',
     }).then((result) => {
       if (result.isConfirmed) {
         const link = document.createElement('a');
         link.download = `${employee.first_name}_${employee.last_name}_QR.png`;
         link.href = qrCodeDataURL;
         link.click();
+      } else if (result.isDenied) {
+        handleShowPhoneBadge(employee);
       }
     });
   };
 
+  const handleShowPhoneBadge = async (employee: Employee) => {
+    let link: string;
+    try {
+      link = await fetchPhoneBadgeLink(employee);
+    } catch (error: unknown) {
+      showBadgeError(error);
+      return;
+    }
+    const linkDataURL = await generateQRCode(link);
+
+    Swal.fire({
+      title: 'Phone Badge',
+      html: `
+        <div class="text-center">
+          <img src="${linkDataURL}" alt="Phone badge link" class="mx-auto mb-4" />
+          <p id="phone-badge-help" class="text-gray-600 text-sm"></p>
+          <p id="phone-badge-warning" class="text-red-600 text-sm mt-2"></p>
+        </div>
+      `,
+      // Set as text, so a name from a bulk upload is never parsed as markup
+      didOpen: () => {
+        (document.getElementById('phone-badge-help') as HTMLElement).textContent =
+          `${employee.first_name} scans this with their phone camera and bookmarks the page. ` +
+          'It shows a code that changes every 30 seconds, so screenshots stop working.';
+        (document.getElementById('phone-badge-warning') as HTMLElement).textContent =
+          `Only show this to ${employee.first_name} - anyone with the link can punch as them.`;
+      },
+      width: 420,
+      confirmButtonColor: '#3B82F6',
+    });
+  };
+
+  const handleReissueBadge = async (employee: Employee) => {
+    try {
+      const history = await fetchBadgeHistory(employee.id);
+      // Built from elements so names and reasons are shown as text, never as markup
+      const summary = document.createElement('p');
+      summary.className = 'mb-3';
+      summary.textContent = `${employee.first_name} ${employee.last_name} is on badge version ${employee.qr_version}. ` +
+        'Reissuing revokes it: the old printed badge and phone badge link stop working and the scanner reports them as revoked.';
+
+      const historyTitle = document.createElement('p');
+      historyTitle.className = 'font-medium mb-1';
+      historyTitle.textContent = 'Previous badges';
+
+      const historyList = document.createElement(history.length === 0 ? 'p' : 'ul');
+      historyList.className = history.length === 0 ? 'text-gray-500' : 'divide-y divide-gray-200 border rounded';
+      if (history.length === 0) historyList.textContent = 'No badges reissued yet';
+      history.forEach(entry => {
+        const item = document.createElement('li');
+        item.className = 'px-3 py-2 flex justify-between';
+        const label = document.createElement('span');
+        label.textContent = `Version ${entry.qr_version} - ${entry.reason}`;
+        const revokedAt = document.createElement('span');
+        revokedAt.className = 'text-gray-500';
+        revokedAt.textContent = formatInTimeZone(entry.revoked_at, 'dd/MM/yyyy HH:mm');
+        item.append(label, revokedAt);
+        historyList.append(item);
+      });
+
+      const content = document.createElement('div');
+      content.className = 'text-left text-sm';
+      content.append(summary, historyTitle, historyList);
+
+      const result = await Swal.fire({
+        title: 'Reissue Badge',
+        html: content,
+        input: 'select',
+        inputOptions: Object.fromEntries(BADGE_REISSUE_REASONS.map(reason => [reason, reason])),
+        inputPlaceholder: 'Reason for reissue',
+        inputValidator: (value) => (!value ? 'Select a reason' : undefined),
+        width: 520,
+        showCancelButton: true,
+        confirmButtonText: 'Revoke & Reissue',
+        confirmButtonColor: '#EF4444',
+        cancelButtonColor: '#6B7280',
+      });
+
+      if (!result.isConfirmed || !result.value) return;
+
+      await reissueBadge(employee, result.value);
+      await fetchEmployees();
+
+      Swal.fire({
+        icon: 'success',
+        title: 'Badge Reissued',
+        text: `Version ${employee.qr_version + 1} issued. Print the new QR code for ${employee.first_name}.`,
+        confirmButtonColor: '#3B82F6',
+      });
+    } catch (error: unknown) {
+      console.error('Error reissuing badge:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: (error as Error).message || 'Failed to reissue badge',
+        confirmButtonColor: '#3B82F6',
+      });
+    }
+  };
+
+  const handleSetPin = async (employee: Employee) => {
+    const { value: pin } = await Swal.fire({
+      title: 'Set Punch PIN',
+      text: `${employee.first_name} ${employee.last_name} can use this PIN at the scanner when their badge will not scan. Any previous PIN stops working.`,
+      input: 'password',
+      inputLabel: 'PIN (4 to 6 digits)',
+      inputAttributes: { inputmode: 'numeric', autocomplete: 'new-password', maxlength: '6' },
+      inputValidator: (value) => (!EMPLOYEE_PIN_PATTERN.test(value) ? 'The PIN must be 4 to 6 digits' : undefined),
+      showCancelButton: true,
+      confirmButtonText: 'Save PIN',
+      confirmButtonColor: '#3B82F6',
+      cancelButtonColor: '#6B7280',
+    });
+
+    if (!pin) return;
+
+    try {
+      await setEmployeePin(employee.id, pin);
+      Swal.fire({
+        icon: 'success',
+        title: 'PIN Saved',
+        text: `Give the PIN to ${employee.first_name} in person.`,
+        timer: 2000,
+        showConfirmButton: false,
+      });
+    } catch (error: unknown) {
+      console.error('Error setting PIN:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: (error as Error).message || 'Failed to save the PIN',
+        confirmButtonColor: '#3B82F6',
+      });
+    }
+  };
+
   const handleBulkUpload = () => {
     Swal.fire({
       title: 'Upload Employee Data',
@@ -305,7 +585,6 @@ export const EmployeeManagement: React.FC = () => {
           last_name: row.LastName.trim(),
           contact_number: row.ContactNumber.toString().trim(),
           department_id: departments.find(d => d.name === 'General')?.id || null,
-          qr_code: `EMP_${Date.now()}_${Math.random().toString(36).substring(2, 8).toUpperCase()}`,
         }));
 
       if (employees.length === 0) {
@@ -339,15 +618,27 @@ export const EmployeeManagement: React.FC = () => {
   };
 
   const exportEmployees = () => {
-    const exportData = employees.map(emp => ({
-      'First Name': emp.first_name,
-      'Last Name': emp.last_name,
-      'Contact Number': emp.contact_number,
-      'Department': emp.departments?.name || 'N/A',
-      'QR Code': emp.qr_code,
-      'Status': emp.is_active ? 'Active' : 'Inactive',
-      'Created': new Date(emp.created_at).toLocaleDateString(),
-    }));
+    const exportData = employees.map(emp => {
+      const row: Record<string, string | number> = {
+        'First Name': emp.first_name,
+        'Last Name': emp.last_name,
+        'Contact Number': emp.contact_number,
+        'Department': emp.departments?.name || 'N/A',
+        'QR Code': emp.qr_code,
+        'Badge Version': emp.qr_version,
+        'Status': emp.is_active ? 'Active' : 'Inactive',
+        'Created': new Date(emp.created_at).toLocaleDateString(),
+      };
+
+      (leaveBalances.get(emp.id) || []).forEach(balance => {
+        const label = LEAVE_TYPE_LABELS[balance.leaveType];
+        row[`${label} Entitled`] = balance.entitled;
+        row[`${label} Carried Forward`] = balance.carriedForward;
+        row[`${label} Used`] = balance.used;
+        row[`${label} Balance`] = balance.balance;
+      });
+      return row;
+    });
 
     const ws = XLSX.utils.json_to_sheet(exportData);
     const wb = XLSX.utils.book_new();
@@ -471,6 +762,9 @@ export const EmployeeManagement: React.FC = () => {
                   <th className="px-3 py-3 sm:px-6 sm:py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider hidden lg:table-cell">
                     QR Code
                   </th>
+                  <th className="px-3 py-3 sm:px-6 sm:py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider hidden md:table-cell">
+                    Leave Balance
+                  </th>
                   <th className="px-3 py-3 sm:px-6 sm:py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
@@ -496,6 +790,9 @@ export const EmployeeManagement: React.FC = () => {
                           <div className="text-responsive-xs text-gray-500 lg:hidden">
                             {employee.departments?.name || 'N/A'}
                           </div>
+                          <div className="text-responsive-xs text-gray-500 md:hidden">
+                            {describeBalances(employee.id)}
+                          </div>
                         </div>
                       </div>
                     </td>
@@ -506,9 +803,17 @@ export const EmployeeManagement: React.FC = () => {
                       {employee.departments?.name || 'N/A'}
                     </td>
                     <td className="px-3 py-3 sm:px-6 sm:py-4 whitespace-nowrap hidden lg:table-cell">
-                      <span className="text-xs font-mono text-gray-600">
-                        {employee.qr_code}
+                      <span className="text-xs text-gray-600">
+                        Signed v{employee.qr_version}
                       </span>
+                      {employee.qr_code.startsWith(LEGACY_BADGE_PREFIX) && (
+                        <div className="text-xs font-mono text-amber-600" title="Old badge, accepted until the migration window is closed">
+                          {employee.qr_code}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-3 sm:px-6 sm:py-4 whitespace-nowrap text-responsive-sm text-gray-900 hidden md:table-cell">
+                      {describeBalances(employee.id)}
                     </td>
                     <td className="px-3 py-3 sm:px-6 sm:py-4 whitespace-nowrap text-responsive-sm font-medium">
                       <div className="flex space-x-1 sm:space-x-2">
@@ -519,6 +824,27 @@ export const EmployeeManagement: React.FC = () => {
                         >
                           <QrCode className="h-4 w-4 sm:h-5 sm:w-5" />
                         </button>
+                        <button
+                          onClick={() => handleReissueBadge(employee)}
+                          className="text-amber-600 hover:text-amber-900 p-1"
+                          title="Reissue Badge"
+                        >
+                          <RefreshCw className="h-4 w-4 sm:h-5 sm:w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleSetPin(employee)}
+                          className="text-violet-600 hover:text-violet-900 p-1"
+                          title="Set Punch PIN"
+                        >
+                          <KeyRound className="h-4 w-4 sm:h-5 sm:w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleEditEntitlements(employee)}
+                          className="text-sky-600 hover:text-sky-900 p-1"
+                          title="Leave Entitlements"
+                        >
+                          <CalendarDays className="h-4 w-4 sm:h-5 sm:w-5" />
+                        </button>
                         <button
                           onClick={() => setEditingEmployee(employee)}
                           className="text-green-600 hover:text-green-900 p-1"
@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import {
+  CalendarDays,
+  Plus,
+  Trash2,
+  Upload
+} from 'lucide-react';
+import { format } from 'date-fns';
+import Swal from 'sweetalert2';
+import {
+  deleteHoliday,
+  fetchHolidays,
+  Holiday,
+  parseHolidayCsv,
+  parseHolidayIcs,
+  saveHolidays
+} from '../lib/workCalendar';
+import { getBusinessDate, parseBusinessDate } from '../utils/dateTime';
+
+export const HolidayCalendar: React.FC = () => {
+  const [year, setYear] = useState(Number(getBusinessDate().slice(0, 4)));
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [newDate, setNewDate] = useState('');
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    fetchHolidays(`${year}-01-01`, `${year}-12-31`)
+      .then(setHolidays)
+      .catch(error => console.error('Error fetching holidays:', error));
+  }, [year]);
+
+  const reloadHolidays = async () => {
+    setHolidays(await fetchHolidays(`${year}-01-01`, `${year}-12-31`));
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    Swal.fire({
+      icon: 'error',
+      title: 'Error',
+      text: (error as Error).message || fallback,
+      confirmButtonColor: '#EF4444',
+    });
+  };
+
+  const handleAddHoliday = async () => {
+    try {
+      await saveHolidays([{ date: newDate, name: newName.trim() }]);
+      setNewDate('');
+      setNewName('');
+      await reloadHolidays();
+    } catch (error: unknown) {
+      console.error('Error adding holiday:', error);
+      showError(error, 'Failed to add the holiday');
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    const result = await Swal.fire({
+      title: 'Remove holiday?',
+      text: `${holiday.name} on ${format(parseBusinessDate(holiday.date), 'dd/MM/yyyy')}`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonColor: '#EF4444',
+      cancelButtonColor: '#6B7280',
+      confirmButtonText: 'Yes, remove',
+    });
+
+    if (!result.isConfirmed) return;
+
+    try {
+      await deleteHoliday(holiday.id);
+      await reloadHolidays();
+    } catch (error: unknown) {
+      console.error('Error deleting holiday:', error);
+      showError(error, 'Failed to remove the holiday');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const imported = file.name.toLowerCase().endsWith('.ics') ? parseHolidayIcs(text) : parseHolidayCsv(text);
+      await saveHolidays(imported);
+      await reloadHolidays();
+
+      Swal.fire({
+        icon: 'success',
+        title: 'Holidays Imported',
+        text: `${imported.length} holiday${imported.length === 1 ? '' : 's'} added or updated`,
+        confirmButtonColor: '#10B981',
+      });
+    } catch (error: unknown) {
+      console.error('Error importing holidays:', error);
+      showError(error, 'Failed to import holidays');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div className="flex items-center">
+          <CalendarDays className="h-6 w-6 text-rose-600 mr-2" />
+          <h3 className="text-xl font-semibold text-gray-900">Holiday Calendar</h3>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            type="number"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value) || year)}
+            className="input-field w-28"
+            title="Holiday year"
+            aria-label="Holiday year"
+          />
+          <label className="btn-secondary cursor-pointer" title="Import holidays from CSV or ICS">
+            <Upload className="h-5 w-5 mr-2" />
+            Import
+            <input
+              type="file"
+              accept=".csv,.ics"
+              onChange={handleImport}
+              className="hidden"
+              aria-label="Import holidays from CSV or ICS"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <input
+          type="date"
+          value={newDate}
+          onChange={(e) => setNewDate(e.target.value)}
+          className="input-field"
+          title="Holiday date"
+          aria-label="Holiday date"
+        />
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          className="input-field"
+          placeholder="e.g. Vesak Full Moon Poya Day"
+          title="Holiday name"
+          aria-label="Holiday name"
+        />
+        <button
+          type="button"
+          onClick={handleAddHoliday}
+          disabled={!newDate || !newName.trim()}
+          className="btn-success"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          Add Holiday
+        </button>
+      </div>
+
+      {holidays.length === 0 ? (
+        <p className="text-sm text-gray-500">No holidays for {year}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border rounded-lg">
+          {holidays.map(holiday => (
+            <li key={holiday.id} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <span className="font-medium text-gray-900">{holiday.name}</span>
+                <span className="text-gray-500 ml-3">
+                  {format(parseBusinessDate(holiday.date), 'EEE, dd MMM yyyy')}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDeleteHoliday(holiday)}
+                className="text-red-600 hover:text-red-800"
+                title="Remove holiday"
+                aria-label="Remove holiday"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-sm text-gray-500 mt-2">
+        CSV files need Date and Name columns. ICS calendars import each all-day event as a holiday.
+      </p>
+    </div>
+  );
+};
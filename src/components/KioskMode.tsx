@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, Lock, LogIn, LogOut } from 'lucide-react';
+import Swal from 'sweetalert2';
+import { QRScanner, RecordedPunch } from './QRScanner';
+import { exitKioskMode, requestKioskFullscreen, verifyKioskPin } from '../lib/kioskMode';
+import { formatInTimeZone } from '../utils/dateTime';
+
+interface KioskModeProps {
+  onExit: () => void;
+}
+
+const RECENT_PUNCH_COUNT = 5;
+
+/**
+ * Full-screen scanner for the unattended gate tablet. There is no navigation
+ * and no way back to the admin screens without the kiosk admin PIN.
+ */
+export const KioskMode: React.FC<KioskModeProps> = ({ onExit }) => {
+  const [now, setNow] = useState(new Date());
+  const [recentPunches, setRecentPunches] = useState<RecordedPunch[]>([]);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    // Keep the browser's back button on the kiosk
+    const handlePopState = () => window.history.pushState(null, '', window.location.href);
+    window.history.pushState(null, '', window.location.href);
+    window.addEventListener('popstate', handlePopState);
+
+    const blockContextMenu = (event: MouseEvent) => event.preventDefault();
+    document.addEventListener('contextmenu', blockContextMenu);
+
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      document.removeEventListener('contextmenu', blockContextMenu);
+    };
+  }, []);
+
+  const handlePunch = (punch: RecordedPunch) => {
+    setRecentPunches(prev => [punch, ...prev].slice(0, RECENT_PUNCH_COUNT));
+  };
+
+  const handleExit = async () => {
+    const { value: pin } = await Swal.fire({
+      title: 'Exit Kiosk Mode',
+      input: 'password',
+      inputLabel: 'Admin PIN',
+      inputAttributes: { inputmode: 'numeric', autocomplete: 'off' },
+      showCancelButton: true,
+      confirmButtonText: 'Unlock',
+      confirmButtonColor: '#3B82F6',
+      // Close by itself if someone walks away with the prompt open
+      timer: 30000,
+      showLoaderOnConfirm: true,
+      preConfirm: async (value: string) => {
+        try {
+          await verifyKioskPin(value || '');
+          return value;
+        } catch (error: unknown) {
+          Swal.showValidationMessage((error as Error).message);
+          return false;
+        }
+      },
+    });
+
+    if (pin) {
+      exitKioskMode();
+      onExit();
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen bg-gray-900 text-white flex flex-col lg:flex-row select-none"
+      onClick={requestKioskFullscreen}
+    >
+      {/* Clock and recent punches */}
+      <div className="lg:w-2/5 p-6 flex flex-col">
+        <div className="flex items-center text-gray-400 mb-2">
+          <Clock className="h-6 w-6 mr-2" />
+          <span className="text-lg">{formatInTimeZone(now, 'EEEE, dd MMMM yyyy')}</span>
+        </div>
+        <div className="text-7xl font-bold tabular-nums mb-8">
+          {formatInTimeZone(now, 'HH:mm')}
+          <span className="text-4xl text-gray-400">{formatInTimeZone(now, ':ss')}</span>
+        </div>
+
+        <h2 className="text-xl font-semibold text-gray-300 mb-3">Recent Punches</h2>
+        {recentPunches.length === 0 ? (
+          <p className="text-gray-500">Scan your badge to check in or out</p>
+        ) : (
+          <ul className="space-y-2">
+            {recentPunches.map((punch, index) => (
+              <li
+                key={`${punch.time}-${index}`}
+                className={`flex items-center justify-between rounded-lg px-4 py-3 ${index === 0 ? 'bg-gray-700' : 'bg-gray-800'}`}
+              >
+                <div className="flex items-center">
+                  {punch.action === 'check-in' ? (
+                    <LogIn className="h-5 w-5 text-green-400 mr-3" />
+                  ) : (
+                    <LogOut className="h-5 w-5 text-orange-400 mr-3" />
+                  )}
+                  <span className="text-lg">{punch.employeeName}</span>
+                </div>
+                <span className="text-gray-300 tabular-nums">
+                  {punch.action === 'check-in' ? 'In' : 'Out'} {formatInTimeZone(punch.time, 'HH:mm')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button
+          onClick={handleExit}
+          className="mt-auto self-start flex items-center text-sm text-gray-500 hover:text-gray-300 pt-6"
+          title="Exit kiosk mode"
+        >
+          <Lock className="h-4 w-4 mr-1" />
+          Admin
+        </button>
+      </div>
+
+      {/* Scanner */}
+      <div className="lg:w-3/5 p-6 flex items-center justify-center">
+        <div className="w-full max-w-2xl">
+          <QRScanner kiosk onPunch={handlePunch} />
+        </div>
+      </div>
+    </div>
+  );
+};
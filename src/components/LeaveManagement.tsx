@@ -0,0 +1,380 @@
+import React, { useState, useEffect } from 'react';
+import {
+  CalendarX2,
+  Check,
+  Plus,
+  X
+} from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import Swal from 'sweetalert2';
+import { format } from 'date-fns';
+import { loadOrganisationTimeZone } from '../lib/attendanceSettings';
+import {
+  countLeaveDays,
+  fetchLeaveRequests,
+  LEAVE_TYPE_LABELS,
+  LeaveRequest,
+  LeaveStatus,
+  LeaveType,
+  reviewLeaveRequest,
+  submitLeaveRequest
+} from '../lib/leaveService';
+import { fetchWorkCalendar, WorkCalendar } from '../lib/workCalendar';
+import { getBusinessDate, parseBusinessDate } from '../utils/dateTime';
+
+interface Employee {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+const REVIEWER_STORAGE_KEY = 'leave-reviewer';
+
+const STATUS_FILTERS: Array<{ id: LeaveStatus | ''; label: string }> = [
+  { id: 'pending', label: 'Pending' },
+  { id: 'approved', label: 'Approved' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: '', label: 'All' },
+];
+
+const getStatusColor = (status: LeaveStatus): string => {
+  switch (status) {
+    case 'approved': return 'bg-green-100 text-green-800';
+    case 'rejected': return 'bg-red-100 text-red-800';
+    default: return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+const formatLeaveDate = (date: string): string => format(parseBusinessDate(date), 'dd/MM/yyyy');
+
+export const LeaveManagement: React.FC = () => {
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState<LeaveStatus | ''>('pending');
+  const [loading, setLoading] = useState(true);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [today, setToday] = useState(getBusinessDate());
+  const [calendar, setCalendar] = useState<WorkCalendar | null>(null);
+
+  useEffect(() => {
+    loadOrganisationTimeZone().then(() => setToday(getBusinessDate()));
+    fetchEmployees();
+  }, []);
+
+  useEffect(() => {
+    fetchLeaveRequests(statusFilter || undefined)
+      .then(setRequests)
+      .catch(error => console.error('Error fetching leave requests:', error))
+      .finally(() => setLoading(false));
+  }, [statusFilter]);
+
+  // Days are counted against the work calendar covering every listed request
+  useEffect(() => {
+    if (requests.length === 0) return;
+    const start = requests.reduce((min, request) => request.start_date < min ? request.start_date : min, requests[0].start_date);
+    const end = requests.reduce((max, request) => request.end_date > max ? request.end_date : max, requests[0].end_date);
+    fetchWorkCalendar(start, end)
+      .then(setCalendar)
+      .catch(error => console.error('Error fetching work calendar:', error));
+  }, [requests]);
+
+  const fetchEmployees = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('id, first_name, last_name')
+        .eq('is_active', true)
+        .order('first_name');
+
+      if (error) throw error;
+      setEmployees(data || []);
+    } catch (error) {
+      console.error('Error fetching employees:', error);
+    }
+  };
+
+  const fetchRequests = async () => {
+    try {
+      setRequests(await fetchLeaveRequests(statusFilter || undefined));
+    } catch (error) {
+      console.error('Error fetching leave requests:', error);
+    }
+  };
+
+  const handleSubmit = async (formData: FormData) => {
+    try {
+      await submitLeaveRequest({
+        employeeId: formData.get('employeeId') as string,
+        leaveType: formData.get('leaveType') as LeaveType,
+        startDate: formData.get('startDate') as string,
+        endDate: formData.get('endDate') as string,
+        reason: formData.get('reason') as string,
+      });
+
+      await fetchRequests();
+      setShowAddModal(false);
+
+      Swal.fire({
+        icon: 'success',
+        title: 'Submitted',
+        text: 'Leave request submitted for approval',
+        confirmButtonColor: '#10B981',
+      });
+    } catch (error: unknown) {
+      console.error('Error submitting leave:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: (error as Error).message || 'Failed to submit leave request',
+        confirmButtonColor: '#EF4444',
+      });
+    }
+  };
+
+  const handleReview = async (request: LeaveRequest, status: 'approved' | 'rejected') => {
+    const result = await Swal.fire({
+      title: status === 'approved' ? 'Approve Leave' : 'Reject Leave',
+      html: `
+        <p id="leave-summary" class="text-sm text-gray-600 mb-4"></p>
+        <input id="leave-reviewer" class="swal2-input" placeholder="Reviewed by" />
+        <input id="leave-note" class="swal2-input" placeholder="Note (optional)" />
+      `,
+      // Names and the stored reviewer are set as text, so they are never parsed as markup
+      didOpen: () => {
+        (document.getElementById('leave-summary') as HTMLElement).textContent =
+          `${request.employees?.first_name || ''} ${request.employees?.last_name || ''} - ` +
+          `${LEAVE_TYPE_LABELS[request.leave_type]} leave, ` +
+          `${formatLeaveDate(request.start_date)} to ${formatLeaveDate(request.end_date)}`;
+        (document.getElementById('leave-reviewer') as HTMLInputElement).value =
+          localStorage.getItem(REVIEWER_STORAGE_KEY) || '';
+      },
+      showCancelButton: true,
+      confirmButtonText: status === 'approved' ? 'Approve' : 'Reject',
+      confirmButtonColor: status === 'approved' ? '#10B981' : '#EF4444',
+      preConfirm: () => {
+        const reviewer = (document.getElementById('leave-reviewer') as HTMLInputElement).value.trim();
+        if (!reviewer) {
+          Swal.showValidationMessage('Enter who is reviewing the request');
+          return false;
+        }
+        return {
+          reviewer,
+          note: (document.getElementById('leave-note') as HTMLInputElement).value,
+        };
+      },
+    });
+
+    if (!result.isConfirmed || !result.value) return;
+
+    try {
+      await reviewLeaveRequest(request.id, status, result.value.reviewer, result.value.note);
+      localStorage.setItem(REVIEWER_STORAGE_KEY, result.value.reviewer);
+      await fetchRequests();
+    } catch (error: unknown) {
+      console.error('Error reviewing leave:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: (error as Error).message || 'Failed to update leave request',
+        confirmButtonColor: '#EF4444',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-sky-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-sky-50 to-blue-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">
+              Leave Management
+            </h1>
+            <p className="text-gray-600">
+              Submit leave requests and approve or reject them
+            </p>
+          </div>
+          <div className="flex items-center space-x-4 mt-4 md:mt-0">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as LeaveStatus | '')}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-transparent"
+              title="Filter by status"
+              aria-label="Filter by status"
+            >
+              {STATUS_FILTERS.map(filter => (
+                <option key={filter.id} value={filter.id}>{filter.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="flex items-center px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 transition-colors"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Request Leave
+            </button>
+          </div>
+        </div>
+
+        {/* Requests */}
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-sky-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-medium text-sky-900">Employee</th>
+                  <th className="px-4 py-4 text-left text-sm font-medium text-sky-900">Type</th>
+                  <th className="px-4 py-4 text-left text-sm font-medium text-sky-900">Dates</th>
+                  <th className="px-4 py-4 text-left text-sm font-medium text-sky-900">Days</th>
+                  <th className="px-4 py-4 text-left text-sm font-medium text-sky-900">Reason</th>
+                  <th className="px-4 py-4 text-left text-sm font-medium text-sky-900">Status</th>
+                  <th className="px-4 py-4 text-center text-sm font-medium text-sky-900">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {requests.map((request) => (
+                  <tr key={request.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {request.employees?.first_name} {request.employees?.last_name}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {LEAVE_TYPE_LABELS[request.leave_type] || request.leave_type}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatLeaveDate(request.start_date)}
+                      {request.end_date !== request.start_date && ` - ${formatLeaveDate(request.end_date)}`}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {calendar ? countLeaveDays(request.start_date, request.end_date, calendar) : '-'}
+                    </td>
+                    <td className="px-4 py-4 text-sm text-gray-600 max-w-xs">
+                      {request.reason}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${getStatusColor(request.status)}`}>
+                        {request.status}
+                      </span>
+                      {request.reviewed_by && (
+                        <div className="text-xs text-gray-500 mt-1" title={request.review_note || undefined}>
+                          by {request.reviewed_by}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-center">
+                      {request.status === 'pending' && (
+                        <div className="flex justify-center space-x-2">
+                          <button
+                            onClick={() => handleReview(request, 'approved')}
+                            className="text-green-600 hover:text-green-800"
+                            title="Approve"
+                            aria-label="Approve"
+                          >
+                            <Check className="h-5 w-5" />
+                          </button>
+                          <button
+                            onClick={() => handleReview(request, 'rejected')}
+                            className="text-red-600 hover:text-red-800"
+                            title="Reject"
+                            aria-label="Reject"
+                          >
+                            <X className="h-5 w-5" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {requests.length === 0 && (
+            <div className="text-center py-12">
+              <CalendarX2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500">No leave requests</p>
+            </div>
+          )}
+        </div>
+
+        {/* Request Leave Modal */}
+        {showAddModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-xl shadow-xl max-w-md w-full">
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-6">
+                  <h3 className="text-xl font-semibold text-gray-900">Request Leave</h3>
+                  <button
+                    onClick={() => setShowAddModal(false)}
+                    className="text-gray-400 hover:text-gray-600"
+                    title="Close"
+                    aria-label="Close"
+                  >
+                    <X className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSubmit(new FormData(e.currentTarget));
+                  }}
+                  className="space-y-4"
+                >
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+                    <select name="employeeId" required className="input-field" title="Select employee" aria-label="Select employee">
+                      <option value="">Select employee</option>
+                      {employees.map(employee => (
+                        <option key={employee.id} value={employee.id}>
+                          {employee.first_name} {employee.last_name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Leave Type</label>
+                    <select name="leaveType" required className="input-field" title="Select leave type" aria-label="Select leave type">
+                      {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map(type => (
+                        <option key={type} value={type}>{LEAVE_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                      <input type="date" name="startDate" defaultValue={today} required className="input-field" title="Leave start date" aria-label="Leave start date" />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                      <input type="date" name="endDate" defaultValue={today} required className="input-field" title="Leave end date" aria-label="Leave end date" />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                    <textarea name="reason" rows={3} required className="input-field" title="Reason for leave" aria-label="Reason for leave" />
+                  </div>
+                  <div className="flex justify-end space-x-3 pt-2">
+                    <button type="button" onClick={() => setShowAddModal(false)} className="btn-secondary">
+                      Cancel
+                    </button>
+                    <button type="submit" className="btn-primary">
+                      Submit Request
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
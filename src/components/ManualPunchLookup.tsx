@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, KeyRound, Search, X } from 'lucide-react';
+import { EMPLOYEE_PIN_PATTERN, PunchCandidate, searchEmployeesForPunch } from '../lib/employeePins';
+
+interface ManualPunchLookupProps {
+  onSubmit: (employee: PunchCandidate, pin: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Waits for the employee to stop typing before searching
+const SEARCH_DELAY_MS = 300;
+
+/** "Can't scan?" fallback: find yourself by name or contact number, then confirm with your PIN. */
+export const ManualPunchLookup: React.FC<ManualPunchLookupProps> = ({ onSubmit, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PunchCandidate[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [selected, setSelected] = useState<PunchCandidate | null>(null);
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = window.setTimeout(() => {
+      setSearching(true);
+      searchEmployeesForPunch(query)
+        .then(found => {
+          if (!cancelled) setResults(found);
+        })
+        .catch(error => console.error('Error searching employees:', error))
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!selected || !EMPLOYEE_PIN_PATTERN.test(pin)) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit(selected, pin);
+    } finally {
+      setPin('');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-white text-gray-900 rounded-lg p-4 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            <KeyRound className="h-5 w-5 mr-2 text-blue-600" />
+            Punch with PIN
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {!selected ? (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Your name or contact number"
+                className="input-field pl-9"
+                autoFocus
+                autoComplete="off"
+              />
+            </div>
+            <ul className="mt-3 divide-y divide-gray-200">
+              {results.map(employee => (
+                <li key={employee.id}>
+                  <button
+                    onClick={() => setSelected(employee)}
+                    className="w-full text-left px-2 py-3 hover:bg-gray-50 rounded"
+                  >
+                    <div className="font-medium">{employee.first_name} {employee.last_name}</div>
+                    <div className="text-xs text-gray-500">{employee.departments?.name || 'N/A'}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {!searching && query.trim().length >= 2 && results.length === 0 && (
+              <p className="mt-3 text-sm text-gray-500">No matching employees</p>
+            )}
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <button
+              type="button"
+              onClick={() => {
+                setSelected(null);
+                setPin('');
+              }}
+              className="text-sm text-blue-600 flex items-center mb-3"
+            >
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Not you?
+            </button>
+            <p className="font-medium mb-2">{selected.first_name} {selected.last_name}</p>
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              placeholder="Your PIN"
+              className="input-field text-center text-2xl tracking-widest"
+              autoFocus
+              autoComplete="off"
+            />
+            <button
+              type="submit"
+              disabled={submitting || !EMPLOYEE_PIN_PATTERN.test(pin)}
+              className="btn-primary w-full mt-4 disabled:opacity-50"
+            >
+              {submitting ? 'Recording...' : 'Confirm Punch'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -6,6 +6,8 @@ import {
   FileText, 
   Settings,
   Clock,
+  CalendarX2,
+  ClipboardPenLine,
   Menu,
   X
 } from 'lucide-react';
@@ -24,6 +26,8 @@ export const Navigation: React.FC<NavigationProps> = ({ activeTab, onTabChange }
     { id: 'employees', label: 'Employees', icon: Users, color: 'purple' },
     { id: 'reports', label: 'Reports', icon: FileText, color: 'orange' },
     { id: 'roster', label: 'Roster', icon: Clock, color: 'teal' },
+    { id: 'leave', label: 'Leave', icon: CalendarX2, color: 'sky' },
+    { id: 'corrections', label: 'Corrections', icon: ClipboardPenLine, color: 'indigo' },
     { id: 'settings', label: 'Settings', icon: Settings, color: 'gray' },
   ];
 
@@ -35,6 +39,8 @@ export const Navigation: React.FC<NavigationProps> = ({ activeTab, onTabChange }
         case 'purple': return 'bg-purple-600 text-white';
         case 'orange': return 'bg-orange-600 text-white';
         case 'teal': return 'bg-teal-600 text-white';
+        case 'indigo': return 'bg-indigo-600 text-white';
+        case 'sky': return 'bg-sky-600 text-white';
         case 'gray': return 'bg-gray-600 text-white';
         default: return 'bg-blue-600 text-white';
       }
@@ -0,0 +1,81 @@
+import React, { useState, useEffect } from 'react';
+import { QrCode, ShieldAlert } from 'lucide-react';
+import QRCode from 'qrcode';
+import {
+  createRotatingBadge,
+  getSecondsUntilRotation,
+  parsePhoneBadgeToken,
+  ROTATING_STEP_SECONDS
+} from '../lib/qrCredentials';
+
+interface PhoneBadgeProps {
+  token: string;
+}
+
+/**
+ * Full-screen rotating QR code for an employee's phone, opened from the link
+ * in their badge enrolment QR. Runs without signing in and never touches the
+ * database: the code is derived from the secret in the link and the clock.
+ */
+export const PhoneBadge: React.FC<PhoneBadgeProps> = ({ token }) => {
+  const [qrDataURL, setQrDataURL] = useState('');
+  const [secondsLeft, setSecondsLeft] = useState(getSecondsUntilRotation());
+  const holder = parsePhoneBadgeToken(token);
+
+  useEffect(() => {
+    const badge = parsePhoneBadgeToken(token);
+    if (!badge) return;
+
+    let lastPayload = '';
+    const refresh = () => {
+      setSecondsLeft(getSecondsUntilRotation());
+      createRotatingBadge(badge)
+        .then(payload => {
+          if (payload === lastPayload) return;
+          lastPayload = payload;
+          return QRCode.toDataURL(payload, { width: 320, margin: 2 }).then(setQrDataURL);
+        })
+        .catch(error => console.error('Error generating phone badge:', error));
+    };
+
+    refresh();
+    const interval = window.setInterval(refresh, 1000);
+    return () => window.clearInterval(interval);
+  }, [token]);
+
+  if (!holder) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 p-6 text-center">
+        <ShieldAlert className="h-16 w-16 text-red-500 mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Badge link not valid</h1>
+        <p className="text-gray-600">Ask your supervisor for a new phone badge link.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="flex items-center mb-6">
+        <QrCode className="h-8 w-8 text-blue-600 mr-2" />
+        <h1 className="text-2xl font-bold text-gray-900">Attendance Badge</h1>
+      </div>
+      <div className="bg-white rounded-2xl shadow-lg p-4">
+        {qrDataURL ? (
+          <img src={qrDataURL} alt="Attendance QR code" className="w-72 h-72" />
+        ) : (
+          <div className="w-72 h-72 flex items-center justify-center text-gray-400">Generating...</div>
+        )}
+      </div>
+      <div className="w-72 h-2 bg-gray-200 rounded-full mt-6 overflow-hidden">
+        <div
+          className="h-full bg-blue-600 transition-all duration-1000"
+          style={{ width: `${(secondsLeft / ROTATING_STEP_SECONDS) * 100}%` }}
+        />
+      </div>
+      <p className="text-sm text-gray-600 mt-2">New code in {secondsLeft}s</p>
+      <p className="text-xs text-gray-500 mt-6 text-center max-w-xs">
+        Hold your phone up to the scanner. Keep this link private - screenshots of the code stop working after a minute.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import Swal from 'sweetalert2';
+import { PunchPhoto } from '../lib/punchPhotos';
+import { formatInTimeZone } from '../utils/dateTime';
+
+interface PunchPhotoThumbProps {
+  photo: PunchPhoto & { url: string };
+  size?: 'sm' | 'md';
+}
+
+/** Thumbnail of the photo taken at a scan; click to see it full size. */
+export const PunchPhotoThumb: React.FC<PunchPhotoThumbProps> = ({ photo, size = 'sm' }) => {
+  const label = `${photo.action === 'check-in' ? 'Check-in' : 'Check-out'} at ${formatInTimeZone(photo.punched_at, 'dd/MM/yyyy HH:mm:ss')}`;
+
+  const showPhoto = () => {
+    Swal.fire({
+      title: label,
+      imageUrl: photo.url,
+      imageAlt: label,
+      confirmButtonColor: '#3B82F6',
+    });
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={showPhoto}
+      className="inline-block align-middle rounded overflow-hidden border border-gray-200 hover:ring-2 hover:ring-blue-400"
+      title={label}
+      aria-label={`Photo: ${label}`}
+    >
+      <img
+        src={photo.url}
+        alt={label}
+        loading="lazy"
+        className={`${size === 'sm' ? 'h-8 w-8' : 'h-16 w-16'} object-cover`}
+      />
+    </button>
+  );
+};
@@ -1,18 +1,55 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { 
   Camera, X, CheckCircle, AlertCircle, RotateCcw, Wifi, WifiOff, 
-  Settings, Flashlight, FlashlightOff, Target
+  Settings, Flashlight, FlashlightOff, Target, Lock, Smartphone, KeyRound, Keyboard,
+  ImageUp, FolderUp
 } from 'lucide-react';
 import QrScanner from 'qr-scanner';
 import { supabase } from '../lib/supabase';
-import { format } from 'date-fns';
 import Swal from 'sweetalert2';
 import { notificationService } from '../lib/notifications';
 import { oneSignalService } from '../lib/oneSignalService';
 import { voiceService } from '../lib/voice';
+import {
+  applyAutoCheckOut, applyScan, COOLDOWN_MESSAGE_PREFIX, DEFAULT_ATTENDANCE_RULES, getSessions, Punch,
+  PunchMethod, resolveAttendanceDate, tagPunchDevice, tagPunchMethod, toRecordColumns
+} from '../lib/attendanceEngine';
+import {
+  fetchAttendanceRules,
+  fetchRosterShift,
+  fetchSettingsMap,
+  loadOrganisationTimeZone,
+  parseAttendanceRules,
+} from '../lib/attendanceSettings';
+import { offlineScanQueue, QueuedScan, ScanRejectedError } from '../lib/offlineQueue';
+import { fetchCredentialPolicy, parseBadgeCredential, verifyBadgeCredential } from '../lib/qrCredentials';
+import { describeRevokedBadge, fetchRevokedVersion, findRevokedCode } from '../lib/badgeHistory';
+import { capturePunchPhoto, compressPunchPhoto, savePunchPhoto } from '../lib/punchPhotos';
+import {
+  DEVICE_DISABLED_MESSAGE, getLocalDevice, registerScannerDevice, ScannerDevice, verifyScannerDevice
+} from '../lib/scannerDevices';
+import { NewScanEvent, recordScanEvent, ScanEventSource } from '../lib/scanEvents';
+import { PunchCandidate, verifyEmployeePin } from '../lib/employeePins';
+import { decodeWedgeScan, listenForWedgeScans } from '../lib/keyboardWedge';
+import { decodeImage, ImageScanResult, isImageFile } from '../lib/imageScan';
+import { GuidanceLevel, GuidancePoint, LiveGuidance, scannerGuidance } from '../lib/scannerGuidance';
+import { lowLightOptimizer } from '../lib/lowLightOptimizer';
+import { fetchIsHalfDay } from '../lib/workCalendar';
+import { ManualPunchLookup } from './ManualPunchLookup';
+import { addBusinessDays, formatInTimeZone, getBusinessDate } from '../utils/dateTime';
+
+export interface RecordedPunch {
+  employeeName: string;
+  action: 'check-in' | 'check-out';
+  time: string;
+}
 
 interface QRScannerProps {
-  onClose: () => void;
+  onClose?: () => void;
+  // Embedded in the kiosk screen: no close button, alerts dismiss themselves and the camera restarts after errors
+  kiosk?: boolean;
+  onPunch?: (punch: RecordedPunch) => void;
+  onStartKiosk?: () => void;
 }
 
 interface ScannerState {
@@ -21,6 +58,8 @@ interface ScannerState {
   isOnline: boolean;
   flashEnabled: boolean;
   lightLevel: number;
+  queuedCount: number;
+  conflictCount: number;
 }
 
 interface AttendanceRecord {
@@ -34,30 +73,61 @@ interface AttendanceRecord {
 interface Employee {
   id: string;
   name: string;
-  qr_code: string;
   first_name: string;
   last_name: string;
   [key: string]: any;
 }
 
-const COOLDOWN_PERIODS = {
-  SCAN: 2000, // 2 seconds between scans
-  CHECKIN_TO_CHECKOUT: 3 * 60 * 1000, // 3 minutes
-  CHECKOUT_TO_CHECKIN: 3 * 60 * 1000, // 3 minutes
-} as const;
-
 const THRESHOLDS = {
   MIN_LIGHT_LEVEL: 5, // 5 lux minimum
   MAX_SCAN_TIME: 500, // 0.5 seconds max scan time
 } as const;
 
-export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
+const KIOSK_TIMINGS = {
+  ALERT: 4000, // error alerts close themselves on the unattended tablet
+  CAMERA_RETRY: 5000, // wait before restarting a failed or lost camera
+  CAMERA_CHECK: 5000, // how often the camera stream is checked
+} as const;
+
+const GUIDANCE_TIMINGS = {
+  OUTLINE_HOLD: 600, // keep the box up through frames where the code briefly fails to decode
+  HINT_INTERVAL: 4000, // minimum gap between spoken hints
+  HINT_REPEAT: 10000, // before the same hint is spoken again
+} as const;
+
+const GUIDANCE_STYLES: Record<GuidanceLevel, { stroke: string; banner: string }> = {
+  idle: { stroke: '#FFFFFF', banner: 'bg-black bg-opacity-50 text-white' },
+  ok: { stroke: '#22C55E', banner: 'bg-green-600 text-white' },
+  adjust: { stroke: '#F59E0B', banner: 'bg-amber-500 text-white' },
+  problem: { stroke: '#EF4444', banner: 'bg-red-600 text-white' },
+};
+
+export const QRScanner: React.FC<QRScannerProps> = ({ onClose, kiosk = false, onPunch, onStartKiosk }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const scannerRef = useRef<QrScanner | null>(null);
   const isMountedRef = useRef(true);
   const lastScanRef = useRef<{ [key: string]: number }>({});
   const lightMonitoringIntervalRef = useRef<number | null>(null);
+  const cameraWatchdogRef = useRef<number | null>(null);
+  const cameraRetryRef = useRef<number | null>(null);
+  const requirePhotoRef = useRef(false);
+  const duplicateScanWindowRef = useRef(DEFAULT_ATTENDANCE_RULES.duplicateScanWindowMs);
+  // Read by the keystroke listener, which is set up once on mount
+  const deviceRef = useRef<ScannerDevice | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Brightness of the last sampled frame (0-255) and the time a code was last in view, for the guidance overlay
+  const lightLevelRef = useRef(255);
+  const lastDetectionAtRef = useRef(0);
+  const lastHintRef = useRef({ message: '', at: 0 });
+  // Set once someone uses the flash button, so automatic torch control stops fighting them
+  const manualTorchRef = useRef(false);
   const [hasCamera, setHasCamera] = useState(false);
+  const [device, setDevice] = useState<ScannerDevice | null>(null);
+  const [deviceProblem, setDeviceProblem] = useState('');
+  const [showManualPunch, setShowManualPunch] = useState(false);
+  const [liveGuidance, setLiveGuidance] = useState<LiveGuidance>({ message: '', level: 'idle' });
+  const [codeOutline, setCodeOutline] = useState<GuidancePoint[] | null>(null);
 
   const [scannerState, setScannerState] = useState<ScannerState>({
     status: 'initializing',
@@ -65,6 +135,8 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
     isOnline: navigator.onLine,
     flashEnabled: false,
     lightLevel: 0,
+    queuedCount: 0,
+    conflictCount: 0,
   });
 
   // Initialize scanner and set up event listeners
@@ -81,26 +153,59 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
     };
     
     checkCamera();
+    fetchSettingsMap()
+      .then(settingsMap => {
+        requirePhotoRef.current = settingsMap.require_photo === 'true';
+        duplicateScanWindowRef.current = parseAttendanceRules(settingsMap).duplicateScanWindowMs;
+        // Stored as a percentage, compared against the 0-255 frame brightness
+        const autoTorchPercent = Number(settingsMap.auto_torch_light_level ?? 12);
+        lowLightOptimizer.setAutoTorchThreshold(Number.isFinite(autoTorchPercent) ? autoTorchPercent * 2.55 : 0);
+      })
+      .catch(error => console.error('Error fetching scanner settings:', error));
+    verifyScannerDevice()
+      .then(setDevice)
+      .catch(error => setDeviceProblem(error.message));
     initializeScanner();
     const cleanupNetwork = setupNetworkListeners();
+    const stopWedgeListener = listenForWedgeScans(raw => handleWedgeScan(raw));
+    // A screenshot or photo pasted anywhere on the scanner is scanned like an upload
+    const handlePaste = (event: ClipboardEvent) => {
+      const images = Array.from(event.clipboardData?.files || []).filter(isImageFile);
+      if (images.length === 0) return;
+      event.preventDefault();
+      scanImages(images);
+    };
+    if (!kiosk) window.addEventListener('paste', handlePaste);
+    refreshQueueCounts().then(() => {
+      if (navigator.onLine) replayOfflineScans();
+    });
 
     return () => {
       isMountedRef.current = false;
       cleanup();
       cleanupNetwork();
+      stopWedgeListener();
+      window.removeEventListener('paste', handlePaste);
     };
   }, []);
 
+  useEffect(() => {
+    deviceRef.current = device;
+  }, [device]);
+
   const initializeScanner = async (): Promise<void> => {
     if (!videoRef.current) return;
 
     try {
       const qrScanner = new QrScanner(
         videoRef.current,
-        handleScan,
+        handleDecode,
         {
+          returnDetailedScanResult: true,
+          onDecodeError: handleDecodeError,
           highlightScanRegion: true,
-          highlightCodeOutline: true,
+          // The guidance overlay draws its own outline, coloured by how well the badge is placed
+          highlightCodeOutline: false,
           preferredCamera: 'environment',
           maxScansPerSecond: 10,
           calculateScanRegion: (video: HTMLVideoElement) => {
@@ -115,11 +220,109 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
       scannerRef.current = qrScanner;
         await qrScanner.start();
 
-      updateScannerState({ status: 'ready' });
+      const stream = videoRef.current.srcObject;
+      if (stream instanceof MediaStream) {
+        lowLightOptimizer.setCurrentStream(stream);
+        manualTorchRef.current = false;
+      }
+
+      updateScannerState({ status: 'ready', error: '', flashEnabled: false });
         startLightLevelMonitoring();
+      if (kiosk) startCameraWatchdog();
     } catch (error: any) {
+      if (kiosk) {
+        // Nobody is there to dismiss an alert, so show the problem and keep retrying
+        console.error('Camera failed to start:', error);
+        updateScannerState({ error: 'Camera unavailable - retrying...' });
+        scheduleCameraRecovery();
+      } else {
+        updateScannerState({ error: 'Camera unavailable - scan photos of badges instead' });
+        handleError(error);
+      }
+    }
+  };
+
+  /** Restarts the scanner when the camera stream ends, e.g. after the tablet sleeps or the camera is unplugged. */
+  const startCameraWatchdog = (): void => {
+    cameraWatchdogRef.current = window.setInterval(() => {
+      const stream = videoRef.current?.srcObject as MediaStream | null | undefined;
+      const live = stream?.getVideoTracks().some(track => track.readyState === 'live');
+      if (!live) {
+        updateScannerState({ error: 'Camera lost - restarting...' });
+        scheduleCameraRecovery();
+      }
+    }, KIOSK_TIMINGS.CAMERA_CHECK);
+  };
+
+  const scheduleCameraRecovery = (): void => {
+    if (cameraRetryRef.current !== null) return;
+
+    cameraRetryRef.current = window.setTimeout(() => {
+      cameraRetryRef.current = null;
+      if (!isMountedRef.current) return;
+      cleanup();
+      initializeScanner();
+    }, KIOSK_TIMINGS.CAMERA_RETRY);
+  };
+
+  const handleDecode = (result: QrScanner.ScanResult): void => {
+    lastDetectionAtRef.current = Date.now();
+    updateGuidance(result.cornerPoints);
+    handleScan(result);
+  };
+
+  // Called for every camera frame without a readable code
+  const handleDecodeError = (): void => {
+    if (Date.now() - lastDetectionAtRef.current > GUIDANCE_TIMINGS.OUTLINE_HOLD) {
+      updateGuidance(null);
+    }
+  };
+
+  const updateGuidance = (cornerPoints: GuidancePoint[] | null): void => {
+    if (!videoRef.current || !isMountedRef.current) return;
+
+    const guidance = scannerGuidance.getLiveGuidance(videoRef.current, cornerPoints, lightLevelRef.current);
+    setCodeOutline(cornerPoints);
+    setLiveGuidance(prev => (prev.message === guidance.message && prev.level === guidance.level ? prev : guidance));
+    speakHint(guidance);
+  };
+
+  /** Reads hints aloud for workers who cannot read the screen, without talking over other announcements. */
+  const speakHint = (guidance: LiveGuidance): void => {
+    if (guidance.level !== 'adjust' && guidance.level !== 'problem') return;
+    if (voiceService.isSpeaking()) return;
+
+    const now = Date.now();
+    const last = lastHintRef.current;
+    if (now - last.at < GUIDANCE_TIMINGS.HINT_INTERVAL) return;
+    if (guidance.message === last.message && now - last.at < GUIDANCE_TIMINGS.HINT_REPEAT) return;
+
+    lastHintRef.current = { message: guidance.message, at: now };
+    voiceService.speak(guidance.message);
+  };
+
+  /** Codes typed by a handheld scanner go through the same path as camera scans. */
+  const handleWedgeScan = (raw: string): void => {
+    const scanner = deviceRef.current;
+    if (scanner?.input_mode !== 'wedge') return;
+
+    let code: string;
+    try {
+      code = decodeWedgeScan(raw, scanner.badge_symbology);
+    } catch (error: unknown) {
+      logScanEvent({
+        deviceId: scanner.id,
+        scannedAt: new Date(),
+        source: 'scanner',
+        payload: raw,
+        outcome: 'invalid',
+        reason: (error as Error).message,
+      });
       handleError(error);
+      return;
     }
+
+    handleScan({ data: code });
   };
 
   const handleScan = async (result: { data: string }): Promise<void> => {
@@ -128,163 +331,567 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
     // Prevent duplicate scans
     if (isRecentlySeen(qrData)) return;
     lastScanRef.current[qrData] = Date.now();
+    const scannedAt = new Date();
+
+    if (!navigator.onLine) {
+      await queueOfflineScan(qrData, scannedAt);
+      return;
+    }
 
     updateScannerState({ status: 'processing' });
 
+    const photoCapture = startPhotoCapture();
+
     try {
-      const employeeData = await validateQRCode(qrData);
+      const employeeData = await validateQRCode(qrData, scannedAt);
       if (!employeeData) {
         throw new Error('Invalid QR code');
       }
 
-      await processAttendance(employeeData);
-      updateScannerState({ status: 'ready' });
+      const photo = await awaitPunchPhoto(photoCapture, employeeData.id, scannedAt, qrData, 'qr');
+      await processAttendance(employeeData, scannedAt, qrData, photo);
     } catch (error: any) {
-      handleError(error);
+      // Connectivity dropped mid-scan: keep the punch instead of losing it
+      if (!navigator.onLine) {
+        await queueOfflineScan(qrData, scannedAt);
+      } else {
+        handleError(error);
+      }
+    } finally {
       updateScannerState({ status: 'ready' });
     }
   };
 
-  const validateQRCode = async (qrData: string): Promise<Employee | null> => {
-    try {
-      const { data: employee, error } = await supabase
-        .from('employees')
-        .select('*')
-        .eq('qr_code', qrData)
-        .single();
+  /** Employees who cannot scan look themselves up and confirm with their personal PIN. */
+  const handleManualPunch = async (candidate: PunchCandidate, pin: string): Promise<void> => {
+    // The PIN can only be checked against the server, so there is nothing to queue
+    if (!navigator.onLine) {
+      handleError(new Error('Punching with a PIN needs a connection. Please try again when online'));
+      return;
+    }
 
-      if (error || !employee) {
-        throw new Error('Invalid QR code');
-      }
+    const scannedAt = new Date();
+    const payload = `PIN:${candidate.id}`;
+    updateScannerState({ status: 'processing' });
+    const photoCapture = startPhotoCapture();
 
-      return employee as Employee;
-    } catch (error) {
-      throw new Error('Failed to validate QR code');
+    try {
+      await verifyEmployeePin(candidate.id, pin).catch(async (error: Error) => {
+        logScanEvent({
+          employeeId: candidate.id,
+          deviceId: getLocalDevice()?.id,
+          scannedAt,
+          source: 'scanner',
+          method: 'pin',
+          payload,
+          outcome: 'invalid',
+          attendanceDate: getBusinessDate(scannedAt, await loadOrganisationTimeZone()),
+          reason: error.message,
+        });
+        throw error;
+      });
+
+      const photo = await awaitPunchPhoto(photoCapture, candidate.id, scannedAt, payload, 'pin');
+      const employee = { ...candidate, name: `${candidate.first_name} ${candidate.last_name}` };
+      await processAttendance(employee, scannedAt, payload, photo, 'pin');
+      setShowManualPunch(false);
+    } catch (error: unknown) {
+      handleError(error);
+    } finally {
+      updateScannerState({ status: 'ready' });
     }
   };
 
-  const processAttendance = async (employee: Employee): Promise<void> => {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Check if there's an existing attendance record for today
-      const { data: existingRecord, error: fetchError } = await supabase
-        .from('attendance_records')
-        .select('*')
-        .eq('employee_id', employee.id)
-        .eq('date', today)
-        .single();
-
-      if (fetchError && fetchError.code !== 'PGRST116') { // PGRST116 is "not found" error
-        console.error('Error fetching attendance:', fetchError);
-        throw new Error('Failed to check existing attendance');
+  /**
+   * Punches from photos of badges, e.g. taken on site by a supervisor while the
+   * scanner was down, and keeps each photo as the punch photo. A file's own
+   * time can be set to anything, so each photo is punched when it is scanned
+   * here; an earlier time has to be entered as an attendance correction.
+   */
+  const scanImages = async (images: File[]): Promise<void> => {
+    if (images.length === 0) return;
+    updateScannerState({ status: 'processing' });
+
+    const results: ImageScanResult[] = [];
+    for (const image of images) {
+      const fileName = image.name || 'Pasted image';
+      const code = await decodeImage(image);
+      const scannedAt = new Date();
+      if (!code) {
+        results.push({ fileName, status: 'no_code', message: 'No QR code found' });
+        continue;
       }
 
-      const now = new Date();
-      let updateData: any = {};
-
-      if (!existingRecord) {
-        // First check-in of the day
-        updateData = {
-            employee_id: employee.id,
-            date: today,
-          first_check_in: now.toISOString(),
-          is_late: await isLate(now),
-          total_hours: 0
-        };
-      } else {
-        // Determine which field to update based on existing data
-        if (!existingRecord.first_check_out) {
-          // Check for three-minute cool-down period
-          const firstCheckInTime = new Date(existingRecord.first_check_in);
-          const timeDifference = now.getTime() - firstCheckInTime.getTime();
-          
-          if (timeDifference < 3 * 60 * 1000) { // 3 minutes in milliseconds
-            throw new Error('Please wait at least 3 minutes between first check-in and first check-out');
-          }
+      if (!navigator.onLine) {
+        try {
+          await offlineScanQueue.enqueue(code, scannedAt);
+          results.push({ fileName, status: 'queued', message: 'Queued until the connection returns' });
+        } catch {
+          results.push({ fileName, status: 'rejected', message: 'No connection and the scan could not be stored offline' });
+        }
+        continue;
+      }
 
-          updateData.first_check_out = now.toISOString();
-          updateData.total_hours = calculateHours(
-            new Date(existingRecord.first_check_in),
-            now
-          );
-        } else if (!existingRecord.second_check_in) {
-          updateData.second_check_in = now.toISOString();
-        } else if (!existingRecord.second_check_out) {
-          updateData.second_check_out = now.toISOString();
-          const firstSession = calculateHours(
-            new Date(existingRecord.first_check_in),
-            new Date(existingRecord.first_check_out)
-          );
-          const secondSession = calculateHours(
-            new Date(existingRecord.second_check_in),
-            now
-          );
-          updateData.total_hours = firstSession + secondSession;
-        } else {
-          throw new Error('All check-ins and check-outs are completed for today');
+      try {
+        const employee = await validateQRCode(code, scannedAt, 'image');
+        if (!employee) {
+          throw new Error('Invalid QR code');
         }
+        const punch = await recordAttendance(employee, scannedAt, code, 'image');
+        const employeeName = `${employee.first_name} ${employee.last_name}`;
+
+        compressPunchPhoto(image)
+          .then(photo => photo && savePunchPhoto({
+            employeeId: employee.id,
+            date: punch.date,
+            punchedAt: punch.time,
+            action: punch.action,
+            photo,
+          }))
+          .catch(error => console.error('Failed to save punch photo:', error));
+
+        onPunch?.({ employeeName, action: punch.action, time: punch.time });
+        results.push({
+          fileName,
+          status: 'recorded',
+          message: `${employeeName} ${punch.action} at ${formatInTimeZone(punch.time, 'dd/MM HH:mm')}`,
+        });
+      } catch (error: unknown) {
+        results.push({ fileName, status: 'rejected', message: (error as Error).message || 'Failed to process attendance' });
       }
+    }
+
+    updateScannerState({ status: 'ready' });
+    await refreshQueueCounts();
+    showImageScanSummary(results);
+  };
+
+  const handleImageInput = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const images = Array.from(event.target.files || []).filter(isImageFile);
+    // Clear the input so choosing the same files again still triggers a scan
+    event.target.value = '';
+    scanImages(images);
+  };
+
+  const showImageScanSummary = (results: ImageScanResult[]): void => {
+    const colors: Record<ImageScanResult['status'], string> = {
+      recorded: 'text-green-700',
+      queued: 'text-yellow-700',
+      rejected: 'text-red-700',
+      no_code: 'text-gray-500',
+    };
+
+    // Built from elements so file names are shown as text, never as markup
+    const list = document.createElement('ul');
+    list.className = 'text-left text-sm divide-y divide-gray-200';
+    results.forEach(result => {
+      const item = document.createElement('li');
+      item.className = 'py-1';
+      const name = document.createElement('div');
+      name.className = 'font-mono text-xs text-gray-500 truncate';
+      name.textContent = result.fileName;
+      const message = document.createElement('div');
+      message.className = colors[result.status];
+      message.textContent = result.message;
+      item.append(name, message);
+      list.append(item);
+    });
+
+    const recorded = results.filter(result => result.status === 'recorded').length;
+    Swal.fire({
+      icon: recorded === results.length ? 'success' : recorded > 0 ? 'warning' : 'error',
+      title: `${recorded} of ${results.length} image${results.length === 1 ? '' : 's'} recorded`,
+      html: list,
+      confirmButtonText: 'OK',
+    });
+  };
 
-      // Perform the database update
-        const { error: updateError } = await supabase
-          .from('attendance_records')
-        .upsert({
-          ...existingRecord,
-          ...updateData
-        })
-        .select();
-
-      if (updateError) {
-        console.error('Error updating attendance:', updateError);
-        throw new Error('Failed to update attendance');
+  // Grab the frame now, while whoever is punching is still in front of the camera
+  const startPhotoCapture = (): Promise<Blob | null> => {
+    return requirePhotoRef.current && videoRef.current
+      ? capturePunchPhoto(videoRef.current).catch(() => null)
+      : Promise.resolve(null);
+  };
+
+  /** The captured photo; refuses the punch, logging it as invalid, when a required photo could not be taken. */
+  const awaitPunchPhoto = async (
+    photoCapture: Promise<Blob | null>,
+    employeeId: string,
+    scannedAt: Date,
+    payload: string,
+    method: PunchMethod
+  ): Promise<Blob | null> => {
+    const photo = await photoCapture;
+    if (requirePhotoRef.current && !photo) {
+      const message = 'Could not take a photo. Please face the camera and try again';
+      logScanEvent({
+        employeeId,
+        deviceId: getLocalDevice()?.id,
+        scannedAt,
+        source: 'scanner',
+        method,
+        payload,
+        outcome: 'invalid',
+        attendanceDate: getBusinessDate(scannedAt, await loadOrganisationTimeZone()),
+        reason: message,
+      });
+      throw new Error(message);
+    }
+    return photo;
+  };
+
+  // The punch does not depend on the log entry for a refused scan, so a failed write is only reported
+  const logScanEvent = (event: NewScanEvent): void => {
+    recordScanEvent(event).catch(error => console.error('Failed to log scan event:', error));
+  };
+
+  /** Resolves the badge to an employee, logging the attempt as invalid when it is refused. */
+  const validateQRCode = async (
+    qrData: string,
+    scannedAt: Date,
+    source: ScanEventSource = 'scanner'
+  ): Promise<Employee | null> => {
+    try {
+      return await resolveBadge(qrData, scannedAt);
+    } catch (error: unknown) {
+      logScanEvent({
+        deviceId: getLocalDevice()?.id,
+        scannedAt,
+        source,
+        payload: qrData,
+        outcome: 'invalid',
+        reason: (error as Error).message,
+      });
+      throw error;
+    }
+  };
+
+  /**
+   * Signed and rotating badges are looked up by employee id and verified with
+   * the employee's secret; old EMP_ codes are matched verbatim while the
+   * migration window is open. Codes from a reissued badge are reported as
+   * revoked with the employee's name.
+   */
+  const resolveBadge = async (qrData: string, scannedAt: Date): Promise<Employee | null> => {
+    const credential = parseBadgeCredential(qrData);
+    if (!credential) {
+      throw new ScanRejectedError('Invalid QR code');
+    }
+
+    const policy = await fetchCredentialPolicy().catch(() => {
+      throw new Error('Failed to validate QR code');
+    });
+
+    if (credential.kind === 'legacy' && (!policy.legacyCodesAllowed || policy.rotatingRequired)) {
+      throw new ScanRejectedError('This badge is no longer accepted. Please ask for a new badge');
+    }
+
+    let query = supabase.from('employees').select('*');
+    query = credential.kind === 'legacy'
+      ? query.eq('qr_code', credential.code)
+      : query.eq('id', credential.employeeId).eq('is_active', true);
+
+    const { data: employee, error } = await query.maybeSingle();
+    if (error) {
+      throw new Error('Failed to validate QR code');
+    }
+    if (!employee) {
+      const revoked = await findRevokedCode(qrData.trim()).catch(() => null);
+      if (revoked) {
+        throw new ScanRejectedError(describeRevokedBadge(`${revoked.firstName} ${revoked.lastName}`, revoked.entry));
       }
+      throw new ScanRejectedError('Invalid QR code');
+    }
 
-      // Show success feedback and notify
-      await showSuccessFeedback(
-        employee, 
-        determineActionType(existingRecord, updateData), 
-        now.toISOString()
-      );
-    } catch (error: any) {
-      handleError(error);
+    if (credential.kind !== 'legacy' && credential.version < employee.qr_version) {
+      const entry = await fetchRevokedVersion(employee.id, credential.version).catch(() => null);
+      throw new ScanRejectedError(describeRevokedBadge(`${employee.first_name} ${employee.last_name}`, entry));
+    }
+
+    if (credential.kind !== 'legacy') {
+      const problem = await verifyBadgeCredential(credential, policy, scannedAt);
+      if (problem) throw new ScanRejectedError(problem);
+    }
+
+    return employee as Employee;
+  };
+
+  const fetchAttendanceRecord = async (employeeId: string, date: string) => {
+    const { data, error } = await supabase
+      .from('attendance_records')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .eq('date', date)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // PGRST116 is "not found" error
+      console.error('Error fetching attendance:', error);
+      throw new Error('Failed to check existing attendance');
+    }
+    return data;
+  };
+
+  /**
+   * Logs the scan as an event, then applies it to the day's record. The event
+   * is written first: it is the source of truth the record can be rebuilt from.
+   */
+  const recordAttendance = async (
+    employee: Employee,
+    scannedAt: Date,
+    qrData: string,
+    source: ScanEventSource = 'scanner',
+    method: PunchMethod = 'qr'
+  ): Promise<Punch & { date: string }> => {
+    const event = { employeeId: employee.id, scannedAt, source, method, payload: qrData };
+
+    // Every punch is attributed to a registered scanner; disabled devices cannot record
+    const scanner = await verifyScannerDevice().catch(async (error: Error) => {
+      logScanEvent({
+        ...event,
+        deviceId: getLocalDevice()?.id,
+        outcome: 'invalid',
+        attendanceDate: getBusinessDate(scannedAt, await loadOrganisationTimeZone()),
+        reason: error.message,
+      });
       throw error;
+    });
+    const rules = await fetchAttendanceRules();
+    const today = getBusinessDate(scannedAt, rules.timeZone);
+
+    // A scan after midnight may still belong to yesterday's overnight shift
+    const yesterday = addBusinessDays(today, -1);
+    const previousShift = await fetchRosterShift(employee.id, yesterday);
+    const previousRecord = previousShift ? await fetchAttendanceRecord(employee.id, yesterday) : null;
+    const day = resolveAttendanceDate(
+      scannedAt,
+      rules.timeZone,
+      previousShift && { date: yesterday, shiftStart: previousShift.shift_start, shiftEnd: previousShift.shift_end },
+      previousRecord
+    );
+
+    const existingRecord = day === yesterday ? previousRecord : await fetchAttendanceRecord(employee.id, day);
+    const shift = day === yesterday ? previousShift : await fetchRosterShift(employee.id, day);
+    // Only changes the expected minutes, so a failed calendar lookup does not hold up the punch
+    const halfDay = await fetchIsHalfDay(day).catch(() => false);
+    const schedule = {
+      date: day,
+      shiftStart: shift?.shift_start || null,
+      shiftEnd: shift?.shift_end || null,
+      breakDuration: shift?.break_duration,
+      halfDay,
+    };
+    // Close a session left open past the auto check-out policy so this scan starts a new one
+    const autoClosed = applyAutoCheckOut(getSessions(existingRecord), scannedAt, rules, schedule);
+    const outcome = applyScan(autoClosed ? autoClosed.sessions : getSessions(existingRecord), scannedAt, rules, schedule);
+
+    if (!outcome.ok) {
+      logScanEvent({ ...event, deviceId: scanner.id, outcome: 'rejected', attendanceDate: day, reason: outcome.message });
+      throw new ScanRejectedError(outcome.message);
+    }
+
+    try {
+      await recordScanEvent({
+        ...event,
+        deviceId: scanner.id,
+        outcome: 'accepted',
+        action: outcome.punch.action,
+        attendanceDate: day,
+      });
+    } catch (error) {
+      console.error('Error logging scan event:', error);
+      throw new Error('Failed to record the scan');
     }
+
+    const updateData = {
+      employee_id: employee.id,
+      date: day,
+      ...toRecordColumns(tagPunchDevice(tagPunchMethod(outcome.sessions, outcome.punch, method), outcome.punch, scanner.id)),
+      total_hours: outcome.totalHours,
+      overtime_minutes: outcome.overtimeMinutes,
+      ...(autoClosed ? { auto_closed: true, auto_close_reviewed: false } : {}),
+      ...(outcome.lateness ? {
+        is_late: outcome.lateness.isLate,
+        late_duration: outcome.lateness.lateMinutes,
+      } : {}),
+    };
+
+    // Perform the database update
+    const { error: updateError } = await supabase
+      .from('attendance_records')
+      .upsert({
+        ...existingRecord,
+        ...updateData
+      })
+      .select();
+
+    if (updateError) {
+      console.error('Error updating attendance:', updateError);
+      throw new Error('Failed to update attendance');
+    }
+
+    // Alert once, on the check-out that takes the record past the overtime threshold
+    const previousOvertime = existingRecord?.overtime_minutes || 0;
+    if (outcome.overtimeMinutes > rules.overtimeThresholdMinutes && previousOvertime <= rules.overtimeThresholdMinutes) {
+      oneSignalService.notifyOvertime(
+        `${employee.first_name} ${employee.last_name}`,
+        Number((outcome.overtimeMinutes / 60).toFixed(2)),
+        day
+      ).catch(error => console.warn('Failed to send overtime alert:', error));
+    }
+
+    return { ...outcome.punch, date: day };
   };
 
-  const isLate = async (checkInTime: Date): Promise<boolean> => {
-      const { data: settings } = await supabase
-        .from('settings')
-        .select('value')
-        .eq('key', 'work_start_time')
-        .single();
+  const processAttendance = async (
+    employee: Employee,
+    scannedAt: Date,
+    qrData: string,
+    photo: Blob | null = null,
+    method: PunchMethod = 'qr'
+  ): Promise<void> => {
+    const punch = await recordAttendance(employee, scannedAt, qrData, 'scanner', method);
 
-    const startTime = settings?.value || '09:00';
-    const [hours, minutes] = startTime.split(':').map(Number);
-    
-    const scheduleTime = new Date(checkInTime);
-    scheduleTime.setHours(hours, minutes, 0, 0);
+    // The punch is already recorded, so a failed upload only loses the evidence
+    if (photo) {
+      savePunchPhoto({
+        employeeId: employee.id,
+        date: punch.date,
+        punchedAt: punch.time,
+        action: punch.action,
+        photo,
+      }).catch(error => console.error('Failed to save punch photo:', error));
+    }
+
+    onPunch?.({
+      employeeName: `${employee.first_name} ${employee.last_name}`,
+      action: punch.action,
+      time: punch.time,
+    });
 
-    return checkInTime > scheduleTime;
+    // Show success feedback and notify
+    await showSuccessFeedback(employee, punch.action, punch.time);
   };
 
-  const calculateHours = (start: Date, end: Date): number => {
-    return Number(((end.getTime() - start.getTime()) / (1000 * 60 * 60)).toFixed(2));
+  const handleRegisterDevice = async (): Promise<void> => {
+    const result = await Swal.fire({
+      title: 'Register Scanner',
+      html: `
+        <input id="device-name" class="swal2-input" placeholder="Device name, e.g. Gate Tablet" />
+        <input id="device-location" class="swal2-input" placeholder="Location, e.g. Main gate" />
+      `,
+      showCancelButton: true,
+      confirmButtonText: 'Register',
+      confirmButtonColor: '#10B981',
+      preConfirm: () => {
+        const name = (document.getElementById('device-name') as HTMLInputElement).value.trim();
+        if (!name) {
+          Swal.showValidationMessage('Enter a name for this device');
+          return false;
+        }
+        return {
+          name,
+          location: (document.getElementById('device-location') as HTMLInputElement).value,
+        };
+      },
+    });
+
+    if (!result.isConfirmed || !result.value) return;
+
+    try {
+      setDevice(await registerScannerDevice(result.value.name, result.value.location));
+      setDeviceProblem('');
+    } catch (error: unknown) {
+      console.error('Error registering scanner:', error);
+      handleError(new Error((error as Error).message || 'Failed to register this device'));
+    }
   };
 
-  const determineActionType = (
-    existingRecord: any,
-    updateData: any
-  ): string => {
-    if (!existingRecord) return 'check-in';
-    if (updateData.first_check_out) return 'check-out';
-    if (updateData.second_check_in) return 'check-in';
-    if (updateData.second_check_out) return 'check-out';
-    return 'check-in';
+  const refreshQueueCounts = async (): Promise<void> => {
+    try {
+      const { pending, conflicts } = await offlineScanQueue.getCounts();
+      updateScannerState({ queuedCount: pending, conflictCount: conflicts });
+    } catch (error) {
+      console.error('Failed to read offline queue:', error);
+    }
+  };
+
+  const queueOfflineScan = async (qrData: string, scannedAt: Date): Promise<void> => {
+    try {
+      await offlineScanQueue.enqueue(qrData, scannedAt);
+      await refreshQueueCounts();
+
+      const message = `Offline - scan queued at ${formatInTimeZone(scannedAt, 'hh:mm a')}`;
+      voiceService.speak('Scan queued. It will be recorded when the connection returns.');
+      await Swal.fire({
+        icon: 'info',
+        title: 'Queued',
+        text: message,
+        timer: 2000,
+        showConfirmButton: false
+      });
+    } catch (error) {
+      console.error('Failed to queue offline scan:', error);
+      handleError(new Error('No connection and the scan could not be stored offline'));
+    }
+  };
+
+  const replayOfflineScans = async (): Promise<void> => {
+    const summary = await offlineScanQueue.replay(async (scan) => {
+      const employee = await validateQRCode(scan.qrData, new Date(scan.scannedAt), 'offline_queue');
+      if (!employee) {
+        throw new ScanRejectedError('Invalid QR code');
+      }
+      await recordAttendance(employee, new Date(scan.scannedAt), scan.qrData, 'offline_queue');
+    });
+    await refreshQueueCounts();
+
+    if (summary.conflicts.length > 0) {
+      showQueueConflicts(summary.conflicts);
+    } else if (summary.replayed > 0) {
+      Swal.fire({
+        icon: 'success',
+        title: 'Queue Synced',
+        text: `${summary.replayed} offline scan${summary.replayed === 1 ? '' : 's'} recorded`,
+        timer: 2000,
+        showConfirmButton: false
+      });
+    }
+  };
+
+  const showQueueConflicts = async (conflicts?: QueuedScan[]): Promise<void> => {
+    const items = conflicts || await offlineScanQueue.getConflicts();
+    if (items.length === 0) return;
+
+    // Reasons can carry employee names and admin-entered revoke reasons, so they are set as text
+    const list = document.createElement('ul');
+    list.className = 'text-left text-sm';
+    items.forEach(scan => {
+      const item = document.createElement('li');
+      item.className = 'mb-1';
+      const time = document.createElement('span');
+      time.className = 'font-mono';
+      time.textContent = formatInTimeZone(scan.scannedAt, 'dd/MM HH:mm');
+      item.append(time, ` - ${scan.reason || 'Rejected'}`);
+      list.append(item);
+    });
+
+    const result = await Swal.fire({
+      icon: 'warning',
+      title: 'Offline Scans Rejected',
+      html: list,
+      showCancelButton: true,
+      confirmButtonText: 'Dismiss All',
+      cancelButtonText: 'Keep'
+    });
+
+    if (result.isConfirmed) {
+      await offlineScanQueue.clearConflicts();
+      await refreshQueueCounts();
+    }
   };
 
   const showSuccessFeedback = async (employee: Employee, action: string, timestamp: string): Promise<void> => {
-    const formattedTime = format(new Date(timestamp), 'hh:mm a');
+    const formattedTime = formatInTimeZone(timestamp, 'hh:mm a');
     const actionText = action === 'check-in' ? 'Check-in' : 'Check-out';
     const message = `${employee.first_name} ${employee.last_name} ${actionText.toLowerCase()} successful at ${formattedTime}`;
     
@@ -301,8 +908,8 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
   const notifyAttendance = async (employee: Employee, action: string, record: AttendanceRecord): Promise<void> => {
     const title = `${employee.name} ${action}`;
     const message = record.isLate 
-      ? `Late ${action} at ${format(new Date(record.timestamp), 'hh:mm a')}`
-      : `${action} at ${format(new Date(record.timestamp), 'hh:mm a')}`;
+      ? `Late ${action} at ${formatInTimeZone(record.timestamp, 'hh:mm a')}`
+      : `${action} at ${formatInTimeZone(record.timestamp, 'hh:mm a')}`;
 
     await notificationService.sendNotification(title, { body: message });
     await oneSignalService.sendNotification({
@@ -316,54 +923,45 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
   const startLightLevelMonitoring = (): void => {
     if (!videoRef.current) return;
 
-    const detectLightLevel = () => {
-      if (!videoRef.current) return;
-
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      if (!context) return;
+    const detectLightLevel = async () => {
+      const video = videoRef.current;
+      if (!video) return;
 
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      context.drawImage(videoRef.current, 0, 0);
+      const lightLevel = await lowLightOptimizer.detectLightLevel(video);
+      lightLevelRef.current = lightLevel;
 
-      const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-      let totalBrightness = 0;
-
-      for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        totalBrightness += (r + g + b) / 3;
+      if (lowLightOptimizer.isLowLight()) {
+        await lowLightOptimizer.optimizeForLowLight(video);
       }
+      if (!manualTorchRef.current) {
+        await lowLightOptimizer.updateAutoTorch(lightLevel);
+      }
+      if (!isMountedRef.current) return;
 
-      const averageBrightness = totalBrightness / (data.length / 4);
-      const normalizedLightLevel = Math.round((averageBrightness / 255) * 100);
-
-      updateScannerState({ lightLevel: normalizedLightLevel });
+      updateScannerState({
+        lightLevel: Math.round((lightLevel / 255) * 100),
+        flashEnabled: lowLightOptimizer.isFlashEnabled(),
+      });
     };
 
     lightMonitoringIntervalRef.current = window.setInterval(detectLightLevel, 1000);
   };
 
   const toggleFlash = async (): Promise<void> => {
-    try {
-      if (scannerRef.current) {
-        if (scannerState.flashEnabled) {
-        await scannerRef.current.turnFlashOff();
-        } else {
-          await scannerRef.current.turnFlashOn();
-        }
-        updateScannerState({ flashEnabled: !scannerState.flashEnabled });
-      }
-    } catch (error) {
-      console.error('Failed to toggle flash:', error);
+    manualTorchRef.current = true;
+    if (lowLightOptimizer.isFlashEnabled()) {
+      await lowLightOptimizer.disableFlash();
+    } else if (!await lowLightOptimizer.enableFlash()) {
+      console.error('Failed to toggle flash: the camera has no torch');
     }
+    updateScannerState({ flashEnabled: lowLightOptimizer.isFlashEnabled() });
   };
 
   const setupNetworkListeners = (): () => void => {
-    const handleOnline = () => updateScannerState({ isOnline: true });
+    const handleOnline = () => {
+      updateScannerState({ isOnline: true });
+      replayOfflineScans();
+    };
     const handleOffline = () => updateScannerState({ isOnline: false });
 
     window.addEventListener('online', handleOnline);
@@ -386,33 +984,43 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
       window.clearInterval(lightMonitoringIntervalRef.current);
       lightMonitoringIntervalRef.current = null;
     }
+    lowLightOptimizer.cleanup();
+
+    if (cameraWatchdogRef.current !== null) {
+      window.clearInterval(cameraWatchdogRef.current);
+      cameraWatchdogRef.current = null;
+    }
+
+    if (cameraRetryRef.current !== null) {
+      window.clearTimeout(cameraRetryRef.current);
+      cameraRetryRef.current = null;
+    }
   };
 
   const handleError = (error: any): void => {
-    let errorMessage = 'An unknown error occurred';
-    
-    if (error.message.includes('3 minutes between first check-in and first check-out')) {
-      errorMessage = 'Please wait at least 3 minutes between your first check-in and first check-out.';
-      
-      // Use SweetAlert for a more user-friendly notification
+    // A cooldown is not an error: tell the employee how long is left, without the error tone
+    if (error.message?.startsWith(COOLDOWN_MESSAGE_PREFIX)) {
       Swal.fire({
         icon: 'warning',
         title: 'Wait Required',
-        text: errorMessage,
-        confirmButtonText: 'OK'
-      });
-    } else {
-      // Existing error handling logic
-      errorMessage = error.message || 'Failed to process attendance';
-      
-      Swal.fire({
-        icon: 'error',
-        title: 'Error',
-        text: errorMessage,
-        confirmButtonText: 'OK'
+        text: error.message,
+        confirmButtonText: 'OK',
+        timer: kiosk ? KIOSK_TIMINGS.ALERT : undefined
       });
+      voiceService.speak(error.message);
+      return;
     }
 
+    const errorMessage = error.message || 'Failed to process attendance';
+
+    Swal.fire({
+      icon: 'error',
+      title: 'Error',
+      text: errorMessage,
+      confirmButtonText: 'OK',
+      timer: kiosk ? KIOSK_TIMINGS.ALERT : undefined
+    });
+
     console.error('Attendance processing error:', error);
     
     // Optional: Add voice notification for accessibility
@@ -421,7 +1029,7 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
 
   const isRecentlySeen = (qrCode: string): boolean => {
     const lastScan = lastScanRef.current[qrCode];
-    return Boolean(lastScan) && (Date.now() - lastScan) < COOLDOWN_PERIODS.SCAN;
+    return Boolean(lastScan) && (Date.now() - lastScan) < duplicateScanWindowRef.current;
   };
 
   const updateScannerState = (newState: Partial<ScannerState>): void => {
@@ -434,19 +1042,43 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
     return level < THRESHOLDS.MIN_LIGHT_LEVEL ? 'bg-red-500' : 'bg-green-500';
   };
 
-  return (
-    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg p-4 w-full max-w-lg mx-4">
+  const scannerView = (
+    <>
         <div className="relative">
                 <video
                   ref={videoRef}
             className="w-full aspect-square object-cover rounded-lg"
           />
           
-          {/* Scanner overlay */}
+          {/* Scanner overlay: the detected code's outline, or a target until a code is in view */}
+          {codeOutline && videoRef.current?.videoWidth ? (
+            <svg
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              viewBox={`0 0 ${videoRef.current.videoWidth} ${videoRef.current.videoHeight}`}
+              preserveAspectRatio="xMidYMid slice"
+            >
+              <polygon
+                points={codeOutline.map(point => `${point.x},${point.y}`).join(' ')}
+                fill="none"
+                stroke={GUIDANCE_STYLES[liveGuidance.level].stroke}
+                strokeWidth={videoRef.current.videoWidth / 100}
+                strokeLinejoin="round"
+              />
+            </svg>
+          ) : (
                   <div className="absolute inset-0 flex items-center justify-center">
             <Target className="w-48 h-48 text-white opacity-50" />
                       </div>
+          )}
+
+          {/* Live positioning guidance */}
+          {liveGuidance.message && !scannerState.error && (
+            <div className="absolute bottom-16 left-4 right-4 flex justify-center pointer-events-none">
+              <span className={`px-3 py-1 rounded-full text-sm font-medium ${GUIDANCE_STYLES[liveGuidance.level].banner}`}>
+                {liveGuidance.message}
+              </span>
+            </div>
+          )}
 
           {/* Status indicators */}
           <div className="absolute top-4 left-4 flex items-center space-x-2">
@@ -456,8 +1088,55 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
               <WifiOff className="text-red-500" size={20} />
             )}
             <div className={`h-3 w-3 rounded-full ${getLightLevelClass(scannerState.lightLevel)}`} />
+            {device?.input_mode === 'wedge' && (
+              <span
+                className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800 flex items-center"
+                title="Handheld scanner connected by USB or Bluetooth"
+              >
+                <Keyboard size={12} className="mr-1" />
+                Handheld
+              </span>
+            )}
+            {scannerState.queuedCount > 0 && (
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                {scannerState.queuedCount} queued
+              </span>
+            )}
+            {scannerState.conflictCount > 0 && (
+              <button
+                onClick={() => showQueueConflicts()}
+                className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800"
+                title="Review rejected offline scans"
+              >
+                {scannerState.conflictCount} rejected
+              </button>
+            )}
                 </div>
 
+          {/* Device registration */}
+          {deviceProblem && (
+            <div className="absolute top-12 left-4 right-4 bg-white bg-opacity-95 p-3 rounded-lg text-sm shadow">
+              <div className="flex items-center text-gray-800">
+                <Smartphone size={16} className="mr-2 flex-shrink-0" />
+                {deviceProblem}
+              </div>
+              {/* A locked kiosk tablet is re-registered by an admin outside kiosk mode */}
+              {!kiosk && deviceProblem !== DEVICE_DISABLED_MESSAGE && (
+                <button
+                  onClick={handleRegisterDevice}
+                  className="mt-2 px-3 py-1 text-xs font-medium rounded-lg bg-green-600 text-white"
+                >
+                  Register Device
+                </button>
+              )}
+            </div>
+          )}
+          {device && (
+            <div className="absolute top-4 right-4 px-2 py-0.5 text-xs font-medium rounded-full bg-black bg-opacity-50 text-white" title={device.location}>
+              {device.name}
+            </div>
+          )}
+
           {/* Controls */}
           <div className="absolute bottom-4 right-4 flex space-x-2">
             {hasCamera && (
@@ -482,9 +1161,73 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
               </div>
             )}
               </div>
-              
+
+      <button
+        onClick={() => setShowManualPunch(true)}
+        disabled={scannerState.status === 'processing'}
+        className="mt-3 w-full py-2 text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 flex items-center justify-center disabled:opacity-50"
+      >
+        <KeyRound size={16} className="mr-2" />
+        Can't scan? Punch with your PIN
+      </button>
+      {!kiosk && (
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          <button
+            onClick={() => imageInputRef.current?.click()}
+            disabled={scannerState.status === 'processing'}
+            className="py-2 text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 flex items-center justify-center disabled:opacity-50"
+            title="Scan badges from photos; you can also paste an image"
+          >
+            <ImageUp size={16} className="mr-2" />
+            Scan Photos
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            disabled={scannerState.status === 'processing'}
+            className="py-2 text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 flex items-center justify-center disabled:opacity-50"
+            title="Scan every photo in a folder"
+          >
+            <FolderUp size={16} className="mr-2" />
+            Scan Folder
+          </button>
+          <input ref={imageInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleImageInput} />
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleImageInput}
+            {...{ webkitdirectory: '' }}
+          />
+        </div>
+      )}
+      {showManualPunch && (
+        <ManualPunchLookup onSubmit={handleManualPunch} onClose={() => setShowManualPunch(false)} />
+      )}
+    </>
+  );
+
+  if (kiosk) {
+    return scannerView;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-4 w-full max-w-lg mx-4">
+        {scannerView}
+
         {/* Close button */}
-        <div className="mt-4 flex justify-end">
+        <div className="mt-4 flex justify-between">
+          {onStartKiosk ? (
+            <button
+              onClick={onStartKiosk}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-lg flex items-center"
+              title="Lock this device to the scanner"
+            >
+              <Lock size={20} className="mr-2" />
+              Kiosk Mode
+            </button>
+          ) : <span />}
           <button
             onClick={onClose}
             className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-lg flex items-center"
@@ -496,4 +1239,4 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onClose }) => {
             </div>
           </div>
   );
-};
\ No newline at end of file
+};
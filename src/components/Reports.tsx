@@ -6,12 +6,28 @@ import {
   Clock,
   TrendingUp,
   Building2,
-  AlertCircle
+  AlertCircle,
+  CalendarX2,
+  UserX
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
+import Swal from 'sweetalert2';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import {
+  AttendanceSession, calculateWorkedMinutes, getPunchDeviceIds, getSessions, PunchAction, PunchMethod
+} from '../lib/attendanceEngine';
+import { fetchSettingsMap, loadOrganisationTimeZone } from '../lib/attendanceSettings';
+import { AbsenceRow, calculateAbsences } from '../lib/absenceCalculator';
+import { LEAVE_TYPE_LABELS, LeaveType } from '../lib/leaveService';
+import { autoCheckOutService } from '../lib/autoCheckOut';
+import { CORRECTION_EDITOR_STORAGE_KEY, saveAttendanceCorrection } from '../lib/attendanceCorrections';
+import { countWorkingDays, fetchWorkCalendar, getPremiumLabel } from '../lib/workCalendar';
+import { PunchPhoto, fetchPunchPhotos, findPunchPhoto } from '../lib/punchPhotos';
+import { PunchPhotoThumb } from './PunchPhotoThumb';
+import { fetchScannerDevices, ScannerDevice } from '../lib/scannerDevices';
+import { formatInTimeZone, getBusinessDate, parseBusinessDate, zonedDateTimeToUtc } from '../utils/dateTime';
 
 
 interface AttendanceRecord {
@@ -22,10 +38,20 @@ interface AttendanceRecord {
   first_check_out: string | null;
   second_check_in: string | null;
   second_check_out: string | null;
+  sessions: AttendanceSession[] | null;
   total_hours: number;
   is_late: boolean;
   late_duration: number;
+  overtime_minutes: number;
   break_duration: number;
+  auto_closed: boolean;
+  auto_close_reviewed: boolean;
+  manually_edited: boolean;
+  leave_type?: LeaveType | null;
+  // Holiday name or 'Rest day' when worked on a non-working day
+  premium_day?: string | null;
+  // Stills taken at the scanner, matched to punches by time
+  photos?: Array<PunchPhoto & { url: string }>;
   employees: {
     first_name: string;
     last_name: string;
@@ -42,39 +68,37 @@ interface ReportData {
     totalWorkingDays: number;
     totalHours: number;
     averageHours: number;
+    overtimeMinutes: number;
     lateCount: number;
     absentCount: number;
+    onLeaveCount: number;
     presentCount: number;
     halfDayCount: number;
+    premiumDayCount: number;
   };
 }
 
-// Constants
-const WORK_START_TIME = '07:30';
-
 // Helper functions
-const calculateLateDuration = (checkInTime: string | null): { duration: string, minutes: number } => {
-  if (!checkInTime) return { duration: '00:00', minutes: 0 };
-  
-  const startTime = new Date(`2000-01-01T${WORK_START_TIME}`);
-  const actualCheckIn = new Date(checkInTime);
-  
-  const checkInForComparison = new Date(
-    2000, 0, 1,
-    actualCheckIn.getHours(),
-    actualCheckIn.getMinutes()
-  );
-  
-  if (checkInForComparison <= startTime) {
-    return { duration: '00:00', minutes: 0 };
-  }
-  
-  const diffMinutes = Math.round((checkInForComparison.getTime() - startTime.getTime()) / (1000 * 60));
-  return {
-    duration: formatDuration(diffMinutes),
-    minutes: diffMinutes
-  };
-};
+const toAbsentRecord = (absence: AbsenceRow): AttendanceRecord => ({
+  id: `absent-${absence.employee_id}-${absence.date}`,
+  employee_id: absence.employee_id,
+  date: absence.date,
+  first_check_in: null,
+  first_check_out: null,
+  second_check_in: null,
+  second_check_out: null,
+  sessions: null,
+  total_hours: 0,
+  is_late: false,
+  late_duration: 0,
+  overtime_minutes: 0,
+  break_duration: 0,
+  auto_closed: false,
+  auto_close_reviewed: false,
+  manually_edited: false,
+  leave_type: absence.leave_type,
+  employees: absence.employees,
+});
 
 const formatDuration = (minutes: number): string => {
   if (minutes === 0) return '-';
@@ -85,28 +109,47 @@ const formatDuration = (minutes: number): string => {
     `${mins}m`;
 };
 
-const formatTime = (timeString: string | null): string => {
+const formatClockTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return format(new Date(2000, 0, 1, hours, minutes), 'h:mm a');
+};
+
+// Punches after midnight on an overnight shift are marked "(+1)" against the record's date
+const formatTime = (timeString: string | null, recordDate?: string): string => {
   if (!timeString) return '-';
-  return format(new Date(timeString), 'hh:mm a');
+  const time = formatInTimeZone(timeString, 'hh:mm a');
+  return recordDate && getBusinessDate(new Date(timeString)) > recordDate ? `${time} (+1)` : time;
 };
 
 export const Reports: React.FC = () => {
   const [reportData, setReportData] = useState<ReportData | null>(null);
   const [loading, setLoading] = useState(false);
   const [reportType, setReportType] = useState<'daily' | 'weekly' | 'monthly'>('daily');
-  const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [selectedDate, setSelectedDate] = useState(getBusinessDate());
   const [selectedDepartment, setSelectedDepartment] = useState('');
   const [departments, setDepartments] = useState<Array<{ id: string; name: string }>>([]);
+  const [selectedDevice, setSelectedDevice] = useState('');
+  const [devices, setDevices] = useState<ScannerDevice[]>([]);
+  const [workSettings, setWorkSettings] = useState({
+    workStartTime: '07:30',
+    workEndTime: '16:30',
+    lateThreshold: 15,
+  });
 
   useEffect(() => {
     fetchDepartments();
+    fetchWorkSettings();
+    fetchScannerDevices()
+      .then(setDevices)
+      .catch(error => console.error('Error fetching scanner devices:', error));
+    loadOrganisationTimeZone().then(() => setSelectedDate(getBusinessDate()));
   }, []);
 
   useEffect(() => {
     if (selectedDate) {
       generateReport();
     }
-  }, [reportType, selectedDate, selectedDepartment]);
+  }, [reportType, selectedDate, selectedDepartment, selectedDevice]);
 
   const fetchDepartments = async () => {
     try {
@@ -122,8 +165,23 @@ export const Reports: React.FC = () => {
     }
   };
 
+  const fetchWorkSettings = async () => {
+    try {
+      const settingsMap = await fetchSettingsMap();
+      setWorkSettings(prev => ({
+        workStartTime: settingsMap.work_start_time || prev.workStartTime,
+        workEndTime: settingsMap.work_end_time || prev.workEndTime,
+        lateThreshold: settingsMap.late_threshold && !Number.isNaN(Number(settingsMap.late_threshold))
+          ? Number(settingsMap.late_threshold)
+          : prev.lateThreshold,
+      }));
+    } catch (error) {
+      console.error('Error fetching work settings:', error);
+    }
+  };
+
   const getDateRange = () => {
-    const date = new Date(selectedDate);
+    const date = parseBusinessDate(selectedDate);
     
     switch (reportType) {
       case 'weekly':
@@ -172,36 +230,65 @@ export const Reports: React.FC = () => {
 
       if (error) throw error;
 
-      // Process data and sort by date
-      const records = (attendanceData || [])
-        .map(record => {
-          const lateDuration = calculateLateDuration(record.first_check_in);
-          return {
-            ...record,
-            is_late: lateDuration.minutes > 0,
-            late_duration: lateDuration.minutes
-          };
-        })
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-      const uniqueEmployees = new Set(records.map(r => r.employee_id));
+      // Lateness is computed against the rostered shift at scan time, so use the stored values
+      const records: AttendanceRecord[] = (attendanceData || []).filter((record: AttendanceRecord) =>
+        !selectedDevice || getPunchDeviceIds(getSessions(record)).includes(selectedDevice)
+      );
+
+      // Flag work on holidays and days off for premium pay
+      const calendar = await fetchWorkCalendar(start, end).catch(calendarError => {
+        console.error('Error fetching work calendar:', calendarError);
+        return null;
+      });
+      if (calendar) {
+        records.forEach(record => {
+          record.premium_day = getPremiumLabel(calendar, record.date);
+        });
+      }
+
+      try {
+        const photos = await fetchPunchPhotos(start, end);
+        records.forEach(record => {
+          record.photos = photos.get(`${record.employee_id}_${record.date}`);
+        });
+      } catch (photoError) {
+        console.error('Error fetching punch photos:', photoError);
+      }
+
+      let absentRecords: AttendanceRecord[] = [];
+      // Absentees never reached a scanner, so they have no place in a per-device report
+      if (!selectedDevice) {
+        try {
+          const absences = await calculateAbsences(start, end, { departmentId: selectedDepartment || undefined });
+          absentRecords = absences.map(toAbsentRecord);
+        } catch (absenceError) {
+          console.error('Error calculating absences:', absenceError);
+        }
+      }
+
+      const rows = [...records, ...absentRecords].sort((a, b) => a.date.localeCompare(b.date));
+      const uniqueEmployees = new Set(rows.map(r => r.employee_id));
       const totalHours = records.reduce((sum, record) => sum + (record.total_hours || 0), 0);
       const lateCount = records.filter(r => r.is_late).length;
       const presentCount = records.length;
       const halfDayCount = records.filter(r => (r.total_hours || 0) >= 4 && (r.total_hours || 0) < 8).length;
+      const overtimeMinutes = records.reduce((sum, record) => sum + (record.overtime_minutes || 0), 0);
 
       const summary = {
         totalEmployees: uniqueEmployees.size,
-        totalWorkingDays: records.length,
+        totalWorkingDays: calendar ? countWorkingDays(calendar, start, end) : records.length,
         totalHours,
         averageHours: records.length > 0 ? totalHours / records.length : 0,
+        overtimeMinutes,
         lateCount,
-        absentCount: 0,
+        absentCount: absentRecords.filter(record => !record.leave_type).length,
+        onLeaveCount: absentRecords.filter(record => record.leave_type).length,
         presentCount,
-        halfDayCount
+        halfDayCount,
+        premiumDayCount: records.filter(record => record.premium_day).length
       };
 
-      setReportData({ records, summary });
+      setReportData({ records: rows, summary });
     } catch (error) {
       console.error('Error generating report:', error);
     } finally {
@@ -216,31 +303,34 @@ export const Reports: React.FC = () => {
         'Date',
         'Employee Name',
         'Department',
-        'First In',
-        'First Out',
-        'Second In',
-        'Second Out',
+        'Check In',
+        'Check Out',
         'Break',
         'Hours',
         'Status',
-        'Late By'
+        'Late By',
+        'Overtime',
+        'Leave',
+        'Premium'
       ];
 
       const tableData = reportData?.records.map(record => [
-        format(new Date(record.date), 'dd/MM/yyyy'),
+        format(parseBusinessDate(record.date), 'dd/MM/yyyy'),
         `${record.employees.first_name} ${record.employees.last_name}`,
         record.employees.departments?.name || '-',
-        formatTime(record.first_check_in),
-        formatTime(record.first_check_out),
-        formatTime(record.second_check_in),
-        formatTime(record.second_check_out),
-        `${record.break_duration || 0} min`,
+        describePdfPunches(record, 'check-in'),
+        describePdfPunches(record, 'check-out'),
+        record.first_check_in ? `${record.break_duration || 0} min` : '-',
         `${record.total_hours?.toFixed(2) || 0}h`,
-        record.is_late ? 'Late' : 'On Time',
-        formatDuration(record.late_duration || 0)
+        (record.is_late || !record.first_check_in ? getAttendanceStatus(record) : 'On Time') + (record.auto_closed ? ' (Auto)' : '') + (record.manually_edited ? ' (Edited)' : ''),
+        formatDuration(record.late_duration || 0),
+        formatDuration(record.overtime_minutes || 0),
+        record.leave_type ? LEAVE_TYPE_LABELS[record.leave_type] : '-',
+        record.premium_day || '-'
       ]) || [];
 
-      const pdf = new jsPDF();
+      // Landscape leaves room for every column the payroll export needs
+      const pdf = new jsPDF({ orientation: 'landscape' });
       pdf.setFontSize(16);
       pdf.text(getReportTitle(), 14, 15);
 
@@ -250,14 +340,19 @@ export const Reports: React.FC = () => {
 
       // Summary table
       const summaryData = [
-        ['Total Employees', 'Present', 'Late', 'Half-Day', 'Total Hours', 'Avg Hours/Day'],
+        ['Total Employees', 'Working Days', 'Present', 'Absent', 'On Leave', 'Late', 'Half-Day', 'Total Hours', 'Avg Hours/Day', 'Overtime', 'Premium Days'],
         [
           reportData?.summary.totalEmployees.toString() || '0',
+          reportData?.summary.totalWorkingDays.toString() || '0',
           reportData?.summary.presentCount.toString() || '0',
+          reportData?.summary.absentCount.toString() || '0',
+          reportData?.summary.onLeaveCount.toString() || '0',
           reportData?.summary.lateCount.toString() || '0',
           reportData?.summary.halfDayCount.toString() || '0',
           (reportData?.summary.totalHours || 0).toFixed(1),
-          (reportData?.summary.averageHours || 0).toFixed(1)
+          (reportData?.summary.averageHours || 0).toFixed(1),
+          formatDuration(reportData?.summary.overtimeMinutes || 0),
+          reportData?.summary.premiumDayCount.toString() || '0'
         ]
       ];
 
@@ -271,11 +366,16 @@ export const Reports: React.FC = () => {
         },
         columnStyles: {
           0: { cellWidth: 30 },
-          1: { cellWidth: 25 },
-          2: { cellWidth: 25 },
-          3: { cellWidth: 25 },
-          4: { cellWidth: 25 },
-          5: { cellWidth: 25 }
+          1: { cellWidth: 23 },
+          2: { cellWidth: 23 },
+          3: { cellWidth: 23 },
+          4: { cellWidth: 23 },
+          5: { cellWidth: 23 },
+          6: { cellWidth: 23 },
+          7: { cellWidth: 23 },
+          8: { cellWidth: 23 },
+          9: { cellWidth: 23 },
+          10: { cellWidth: 23 }
         },
         headStyles: {
           fillColor: [85, 33, 181],
@@ -297,16 +397,17 @@ export const Reports: React.FC = () => {
         },
         columnStyles: {
           0: { cellWidth: 20 },  // Date
-          1: { cellWidth: 30 },  // Employee Name
-          2: { cellWidth: 25 },  // Department
-          3: { cellWidth: 15 },  // First In
-          4: { cellWidth: 15 },  // First Out
-          5: { cellWidth: 15 },  // Second In
-          6: { cellWidth: 15 },  // Second Out
-          7: { cellWidth: 15 },  // Break
-          8: { cellWidth: 15 },  // Hours
-          9: { cellWidth: 15 },  // Status
-          10: { cellWidth: 15 }  // Late By
+          1: { cellWidth: 28 },  // Employee Name
+          2: { cellWidth: 22 },  // Department
+          3: { cellWidth: 30 },  // Check In, one line per session
+          4: { cellWidth: 30 },  // Check Out
+          5: { cellWidth: 15 },  // Break
+          6: { cellWidth: 15 },  // Hours
+          7: { cellWidth: 15 },  // Status
+          8: { cellWidth: 15 },  // Late By
+          9: { cellWidth: 18 },  // Overtime
+          10: { cellWidth: 15 }, // Leave
+          11: { cellWidth: 20 }  // Premium
         },
         headStyles: {
           fillColor: [85, 33, 181],
@@ -331,7 +432,7 @@ export const Reports: React.FC = () => {
   };
 
   const getReportTitle = () => {
-    const date = new Date(selectedDate);
+    const date = parseBusinessDate(selectedDate);
     switch (reportType) {
       case 'weekly':
         return `Weekly Report - ${format(startOfWeek(date), 'MMM dd')} to ${format(endOfWeek(date), 'MMM dd, yyyy')}`;
@@ -343,30 +444,156 @@ export const Reports: React.FC = () => {
   };
 
   const calculateWorkingDuration = (record: AttendanceRecord): string => {
-    if (!record.first_check_in) return '0:00';
-    
-    let totalMinutes = 0;
-    
-    // First session
-    if (record.first_check_in && record.first_check_out) {
-      const firstIn = new Date(record.first_check_in);
-      const firstOut = new Date(record.first_check_out);
-      totalMinutes += (firstOut.getTime() - firstIn.getTime()) / (1000 * 60);
-    }
-    
-    // Second session
-    if (record.second_check_in && record.second_check_out) {
-      const secondIn = new Date(record.second_check_in);
-      const secondOut = new Date(record.second_check_out);
-      totalMinutes += (secondOut.getTime() - secondIn.getTime()) / (1000 * 60);
+    if (!record.first_check_in) return '-';
+    return formatDuration(Math.round(calculateWorkedMinutes(getSessions(record))));
+  };
+
+  // Punches entered by hand or before device registration have no scanner
+  const describeDevices = (record: AttendanceRecord): string => {
+    const names = getPunchDeviceIds(getSessions(record))
+      .map(id => devices.find(device => device.id === id)?.name || 'Unknown device');
+    return names.length > 0 ? names.join(', ') : '-';
+  };
+
+  const renderPunchPhoto = (record: AttendanceRecord, time: string | null) => {
+    const photo = findPunchPhoto(record.photos, time);
+    return photo ? <span className="ml-2"><PunchPhotoThumb photo={photo} /></span> : null;
+  };
+
+  // Every session on its own line, so days with more than two sessions are exported in full
+  const describePdfPunches = (record: AttendanceRecord, action: PunchAction): string => {
+    const sessions = getSessions(record);
+    if (sessions.length === 0) return '-';
+
+    return sessions.map(session => {
+      const time = action === 'check-in' ? session.check_in : session.check_out;
+      const method = action === 'check-in' ? session.check_in_method : session.check_out_method;
+      const autoClosed = action === 'check-out' && session.auto_closed && session.check_out;
+      return formatTime(time, record.date) + (method === 'pin' ? ' (PIN)' : '') + (autoClosed ? ' (Auto)' : '');
+    }).join('\n');
+  };
+
+  const renderPunches = (record: AttendanceRecord, action: PunchAction) => {
+    const sessions = getSessions(record);
+    if (sessions.length === 0) return '-';
+
+    return sessions.map((session, index) => {
+      const time = action === 'check-in' ? session.check_in : session.check_out;
+      const autoClosed = action === 'check-out' && session.auto_closed && session.check_out;
+      return (
+        <div key={index} className="flex items-center min-h-[1.5rem]">
+          <span className="text-xs text-gray-400 w-5">{index + 1}.</span>
+          <span className={autoClosed ? 'text-amber-600 italic' : ''} title={autoClosed ? 'Closed by the system' : undefined}>
+            {formatTime(time, record.date)}
+          </span>
+          {renderPinFlag(action === 'check-in' ? session.check_in_method : session.check_out_method)}
+          {renderPunchPhoto(record, time)}
+        </div>
+      );
+    });
+  };
+
+  // Punches entered by name and PIN at the scanner instead of a badge scan
+  const renderPinFlag = (method: PunchMethod | undefined) => {
+    return method === 'pin' ? (
+      <span className="ml-2 px-1.5 py-0.5 text-xs font-medium rounded bg-violet-100 text-violet-800" title="Punched with PIN, badge not scanned">
+        PIN
+      </span>
+    ) : null;
+  };
+
+  /** Lets a supervisor keep the system check-out times or enter the actual ones. */
+  const handleReviewAutoClose = async (record: AttendanceRecord) => {
+    const sessions = getSessions(record);
+    const autoClosed = sessions
+      .map((session, index) => ({ session, index }))
+      .filter(({ session }) => session.auto_closed && session.check_out);
+
+    const inputs = autoClosed.map(({ session, index }) => `
+      <div class="text-left mb-3">
+        <label class="block text-sm text-gray-600 mb-1">
+          Session ${index + 1}: in ${formatInTimeZone(session.check_in, 'dd/MM HH:mm')}, closed by system
+        </label>
+        <input id="auto-close-${index}" type="datetime-local" class="swal2-input" style="margin: 0; width: 100%"
+          value="${formatInTimeZone(session.check_out!, "yyyy-MM-dd'T'HH:mm")}" />
+      </div>
+    `).join('');
+
+    const result = await Swal.fire({
+      titleText: `${record.employees.first_name} ${record.employees.last_name}`,
+      html: `
+        <p class="text-sm text-gray-500 mb-4">Correct the check-out if the actual time is known</p>${inputs}
+        <input id="auto-close-reason" class="swal2-input" placeholder="Reason for the change" style="margin: 0 0 0.5rem; width: 100%" />
+        <input id="auto-close-editor" class="swal2-input" placeholder="Your name" style="margin: 0; width: 100%" />
+      `,
+      showDenyButton: true,
+      showCancelButton: true,
+      confirmButtonText: 'Save Actual Time',
+      denyButtonText: 'Keep System Time',
+      confirmButtonColor: '#10B981',
+      denyButtonColor: '#6B7280',
+      didOpen: () => {
+        // Set as a property, so a stored name is never parsed as markup
+        (document.getElementById('auto-close-editor') as HTMLInputElement).value =
+          localStorage.getItem(CORRECTION_EDITOR_STORAGE_KEY) || '';
+      },
+      preConfirm: () => {
+        const checkOuts = new Map<number, string>();
+        autoClosed.forEach(({ index }) => {
+          const [date, time] = (document.getElementById(`auto-close-${index}`) as HTMLInputElement).value.split('T');
+          checkOuts.set(index, zonedDateTimeToUtc(date, time).toISOString());
+        });
+        const reason = (document.getElementById('auto-close-reason') as HTMLInputElement).value.trim();
+        const changedBy = (document.getElementById('auto-close-editor') as HTMLInputElement).value.trim();
+        const changed = autoClosed.some(({ session, index }) => checkOuts.get(index) !== session.check_out);
+        if (changed && (!reason || !changedBy)) {
+          Swal.showValidationMessage('Enter a reason and your name to change a check-out');
+          return false;
+        }
+        return { checkOuts, changed, reason, changedBy };
+      },
+    });
+
+    try {
+      if (result.isDenied) {
+        await autoCheckOutService.confirm(record.id);
+      } else if (result.isConfirmed && result.value) {
+        const { checkOuts, changed, reason, changedBy } = result.value;
+        // Goes through the correction path, so the change is audited like any other
+        if (changed) {
+          await saveAttendanceCorrection({
+            employeeId: record.employee_id,
+            date: record.date,
+            sessions: sessions.map((session, index) => ({
+              check_in: session.check_in,
+              check_out: checkOuts.get(index) ?? session.check_out,
+            })),
+            reason,
+            changedBy,
+          });
+          localStorage.setItem(CORRECTION_EDITOR_STORAGE_KEY, changedBy);
+        }
+        await autoCheckOutService.confirm(record.id);
+      } else {
+        return;
+      }
+      await generateReport();
+    } catch (error: unknown) {
+      console.error('Error reviewing auto check-out:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: (error as Error).message || 'Failed to update the check-out',
+        confirmButtonColor: '#EF4444',
+      });
     }
-    
-    return formatDuration(Math.round(totalMinutes));
   };
 
   const getAttendanceStatus = (record: AttendanceRecord): string => {
-    if (!record.first_check_in) return 'Absent';
-    if (record.is_late) return 'Late';
+    if (!record.first_check_in) return record.leave_type ? 'On Leave' : 'Absent';
+    if (record.is_late) {
+      return (record.late_duration || 0) > workSettings.lateThreshold ? 'Very Late' : 'Late';
+    }
     if ((record.total_hours || 0) >= 4 && (record.total_hours || 0) < 8) return 'Half-Day';
     return 'Present';
   };
@@ -375,8 +602,10 @@ export const Reports: React.FC = () => {
     switch (status) {
       case 'Present': return 'bg-green-100 text-green-800';
       case 'Late': return 'bg-orange-100 text-orange-800';
+      case 'Very Late': return 'bg-red-100 text-red-700';
       case 'Half-Day': return 'bg-yellow-100 text-yellow-800';
       case 'Absent': return 'bg-red-100 text-red-800';
+      case 'On Leave': return 'bg-blue-100 text-blue-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -419,7 +648,7 @@ export const Reports: React.FC = () => {
 
         {/* Filters */}
         <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Report Type
@@ -467,6 +696,25 @@ export const Reports: React.FC = () => {
                 ))}
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Scanner
+              </label>
+              <select
+                value={selectedDevice}
+                onChange={(e) => setSelectedDevice(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                title="Select scanner device"
+                aria-label="Scanner"
+              >
+                <option value="">All Scanners</option>
+                {devices.map(device => (
+                  <option key={device.id} value={device.id}>
+                    {device.name}{device.location ? ` (${device.location})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="flex items-end">
               <button
                 onClick={generateReport}
@@ -486,13 +734,13 @@ export const Reports: React.FC = () => {
             <div className="bg-gradient-to-r from-purple-600 to-pink-600 text-white p-6">
               <h2 className="text-2xl font-bold mb-2">{getReportTitle()}</h2>
               <p className="text-purple-100">
-                Generated on {format(new Date(), 'dd/MM/yyyy HH:mm')} | Working Hours: 7:30 AM - 4:30 PM
+                Generated on {formatInTimeZone(new Date(), 'dd/MM/yyyy HH:mm')} | Working Hours: {formatClockTime(workSettings.workStartTime)} - {formatClockTime(workSettings.workEndTime)} (or rostered shift) | Working Days: {reportData.summary.totalWorkingDays}
               </p>
             </div>
 
             {/* Summary Cards */}
             <div className="p-6">
-              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4 mb-8">
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4 mb-8">
                 <div className="bg-blue-50 rounded-lg p-4 text-center">
                   <Users className="h-8 w-8 text-blue-600 mx-auto mb-2" />
                   <p className="text-2xl font-bold text-blue-600">{reportData.summary.totalEmployees}</p>
@@ -503,6 +751,16 @@ export const Reports: React.FC = () => {
                   <p className="text-2xl font-bold text-green-600">{reportData.summary.presentCount}</p>
                   <p className="text-sm text-green-600">Present</p>
                 </div>
+                <div className="bg-red-50 rounded-lg p-4 text-center">
+                  <UserX className="h-8 w-8 text-red-600 mx-auto mb-2" />
+                  <p className="text-2xl font-bold text-red-600">{reportData.summary.absentCount}</p>
+                  <p className="text-sm text-red-600">Absent</p>
+                </div>
+                <div className="bg-sky-50 rounded-lg p-4 text-center">
+                  <CalendarX2 className="h-8 w-8 text-sky-600 mx-auto mb-2" />
+                  <p className="text-2xl font-bold text-sky-600">{reportData.summary.onLeaveCount}</p>
+                  <p className="text-sm text-sky-600">On Leave</p>
+                </div>
                 <div className="bg-orange-50 rounded-lg p-4 text-center">
                   <AlertCircle className="h-8 w-8 text-orange-600 mx-auto mb-2" />
                   <p className="text-2xl font-bold text-orange-600">{reportData.summary.lateCount}</p>
@@ -537,16 +795,10 @@ export const Reports: React.FC = () => {
                         Employee Name
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        First Check-In
-                      </th>
-                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        First Check-Out
+                        Check-In
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Second Check-In
-                      </th>
-                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Second Check-Out
+                        Check-Out
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Break Duration
@@ -560,6 +812,12 @@ export const Reports: React.FC = () => {
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Late By
                       </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Overtime
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Scanner
+                      </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -568,7 +826,12 @@ export const Reports: React.FC = () => {
                       return (
                         <tr key={record.id} className="hover:bg-gray-50">
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
-                            {format(new Date(record.date), 'dd/MM/yyyy')}
+                            {format(parseBusinessDate(record.date), 'dd/MM/yyyy')}
+                            {record.premium_day && (
+                              <div className="text-xs text-rose-600" title="Worked on a holiday or day off - premium pay">
+                                {record.premium_day}
+                              </div>
+                            )}
                           </td>
                           <td className="px-4 py-3 whitespace-nowrap">
                             <div className="text-sm font-medium text-gray-900">
@@ -579,19 +842,13 @@ export const Reports: React.FC = () => {
                             </div>
                           </td>
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
-                            {formatTime(record.first_check_in)}
+                            {renderPunches(record, 'check-in')}
                           </td>
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
-                            {formatTime(record.first_check_out)}
+                            {renderPunches(record, 'check-out')}
                           </td>
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
-                            {formatTime(record.second_check_in)}
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
-                            {formatTime(record.second_check_out)}
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
-                            {formatDuration(record.break_duration || 60)}
+                            {record.first_check_in ? formatDuration(record.break_duration || 60) : '-'}
                           </td>
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
                             {calculateWorkingDuration(record)}
@@ -600,10 +857,40 @@ export const Reports: React.FC = () => {
                             <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(status)}`}>
                               {status}
                             </span>
+                            {record.leave_type && (
+                              <span className="block mt-1 text-xs text-blue-600">
+                                {LEAVE_TYPE_LABELS[record.leave_type]} leave
+                              </span>
+                            )}
+                            {record.premium_day && (
+                              <span className="block mt-1 text-xs text-rose-600 font-medium">
+                                Premium pay
+                              </span>
+                            )}
+                            {record.manually_edited && (
+                              <span className="block mt-1 text-xs text-indigo-600 font-medium" title="Corrected manually - see the audit trail">
+                                Edited
+                              </span>
+                            )}
+                            {record.auto_closed && (
+                              <button
+                                onClick={() => handleReviewAutoClose(record)}
+                                className={`block mt-1 text-xs underline ${record.auto_close_reviewed ? 'text-gray-500' : 'text-amber-600 font-medium'}`}
+                                title="Review system check-out"
+                              >
+                                {record.auto_close_reviewed ? 'Auto-closed (reviewed)' : 'Auto-closed - review'}
+                              </button>
+                            )}
                           </td>
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
                             {formatDuration(record.late_duration || 0)}
                           </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                            {formatDuration(record.overtime_minutes || 0)}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                            {describeDevices(record)}
+                          </td>
                         </tr>
                       );
                     })}
@@ -12,6 +12,10 @@ import {
 import { supabase } from '../lib/supabase';
 import { format, addDays, startOfWeek, endOfWeek } from 'date-fns';
 import Swal from 'sweetalert2';
+import { loadOrganisationTimeZone } from '../lib/attendanceSettings';
+import { getShiftDurationMinutes, isOvernightShift } from '../lib/attendanceEngine';
+import { fetchWorkCalendar, getCalendarDay, isWorkingDay, WorkCalendar } from '../lib/workCalendar';
+import { getBusinessDate, parseBusinessDate } from '../utils/dateTime';
 
 interface RosterEntry {
   id: string;
@@ -36,9 +40,14 @@ export const Roster: React.FC = () => {
   const [roster, setRoster] = useState<RosterEntry[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedWeek, setSelectedWeek] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [selectedWeek, setSelectedWeek] = useState(getBusinessDate());
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingEntry, setEditingEntry] = useState<RosterEntry | null>(null);
+  const [calendar, setCalendar] = useState<WorkCalendar | null>(null);
+
+  useEffect(() => {
+    loadOrganisationTimeZone().then(() => setSelectedWeek(getBusinessDate()));
+  }, []);
 
   useEffect(() => {
     fetchEmployees();
@@ -62,8 +71,8 @@ export const Roster: React.FC = () => {
 
   const fetchRoster = async () => {
     try {
-      const weekStart = format(startOfWeek(new Date(selectedWeek)), 'yyyy-MM-dd');
-      const weekEnd = format(endOfWeek(new Date(selectedWeek)), 'yyyy-MM-dd');
+      const weekStart = format(startOfWeek(parseBusinessDate(selectedWeek)), 'yyyy-MM-dd');
+      const weekEnd = format(endOfWeek(parseBusinessDate(selectedWeek)), 'yyyy-MM-dd');
 
       const { data, error } = await supabase
         .from('rosters')
@@ -77,6 +86,11 @@ export const Roster: React.FC = () => {
 
       if (error) throw error;
       setRoster(data || []);
+
+      setCalendar(await fetchWorkCalendar(weekStart, weekEnd).catch(calendarError => {
+        console.error('Error fetching work calendar:', calendarError);
+        return null;
+      }));
     } catch (error) {
       console.error('Error fetching roster:', error);
     } finally {
@@ -85,7 +99,7 @@ export const Roster: React.FC = () => {
   };
 
   const getWeekDays = () => {
-    const weekStart = startOfWeek(new Date(selectedWeek));
+    const weekStart = startOfWeek(parseBusinessDate(selectedWeek));
     return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
   };
 
@@ -213,11 +227,9 @@ export const Roster: React.FC = () => {
     }
   };
 
+  // Shifts ending at or before their start time finish the next day
   const calculateWorkingHours = (start: string, end: string, breakDuration: number) => {
-    const startTime = new Date(`2000-01-01T${start}`);
-    const endTime = new Date(`2000-01-01T${end}`);
-    const diffMs = endTime.getTime() - startTime.getTime();
-    const diffHours = diffMs / (1000 * 60 * 60);
+    const diffHours = getShiftDurationMinutes(start, end) / 60;
     return Math.max(0, diffHours - (breakDuration / 60));
   };
 
@@ -270,12 +282,27 @@ export const Roster: React.FC = () => {
                   <th className="px-6 py-4 text-left text-sm font-medium text-teal-900">
                     Employee
                   </th>
-                  {getWeekDays().map((day) => (
-                    <th key={day.toISOString()} className="px-4 py-4 text-center text-sm font-medium text-teal-900 min-w-[140px]">
-                      <div>{format(day, 'EEE')}</div>
-                      <div className="text-xs text-teal-600">{format(day, 'MMM dd')}</div>
-                    </th>
-                  ))}
+                  {getWeekDays().map((day) => {
+                    const calendarDay = calendar ? getCalendarDay(calendar, format(day, 'yyyy-MM-dd')) : null;
+                    return (
+                      <th
+                        key={day.toISOString()}
+                        className={`px-4 py-4 text-center text-sm font-medium text-teal-900 min-w-[140px] ${calendarDay?.holiday ? 'bg-rose-50' : ''}`}
+                      >
+                        <div>{format(day, 'EEE')}</div>
+                        <div className="text-xs text-teal-600">{format(day, 'MMM dd')}</div>
+                        {calendarDay?.holiday ? (
+                          <div className="text-xs text-rose-600 font-medium truncate" title={calendarDay.holiday.name}>
+                            {calendarDay.holiday.name}
+                          </div>
+                        ) : calendarDay?.type === 'off' ? (
+                          <div className="text-xs text-gray-500">Day off</div>
+                        ) : calendarDay?.type === 'half' ? (
+                          <div className="text-xs text-amber-600">Half day</div>
+                        ) : null}
+                      </th>
+                    );
+                  })}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
@@ -302,15 +329,26 @@ export const Roster: React.FC = () => {
                         : 0;
 
                       return (
-                        <td key={`${employee.id}-${day.toISOString()}`} className="px-4 py-4 text-center">
+                        <td
+                          key={`${employee.id}-${day.toISOString()}`}
+                          className={`px-4 py-4 text-center ${calendar && getCalendarDay(calendar, format(day, 'yyyy-MM-dd')).holiday ? 'bg-rose-50/50' : ''}`}
+                        >
                           {rosterEntry ? (
                             <div className="bg-teal-50 rounded-lg p-2 text-xs">
                               <div className="font-medium text-teal-900">
                                 {rosterEntry.shift_start} - {rosterEntry.shift_end}
+                                {isOvernightShift(rosterEntry.shift_start, rosterEntry.shift_end) && (
+                                  <span className="ml-1 text-indigo-600" title="Ends the next day">+1</span>
+                                )}
                               </div>
                               <div className="text-teal-600 mt-1">
                                 {workingHours.toFixed(1)}h
                               </div>
+                              {calendar && !isWorkingDay(calendar, format(day, 'yyyy-MM-dd')) && (
+                                <div className="text-rose-600 mt-1" title="Work on this day is paid at a premium">
+                                  Premium
+                                </div>
+                              )}
                               <div className="flex justify-center space-x-1 mt-2">
                                 <button
                                   onClick={() => setEditingEntry(rosterEntry)}
@@ -422,6 +460,7 @@ export const Roster: React.FC = () => {
                           title="Select shift end time"
                           aria-label="Select shift end time"
                         />
+                        <p className="text-xs text-gray-500 mt-1">Earlier than start = next day</p>
                       </div>
                     </div>
                     <div>
@@ -537,6 +576,7 @@ export const Roster: React.FC = () => {
                           title="Select shift end time"
                           aria-label="Select shift end time"
                         />
+                        <p className="text-xs text-gray-500 mt-1">Earlier than start = next day</p>
                       </div>
                     </div>
                     <div>
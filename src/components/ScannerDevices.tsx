@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { Pencil, Smartphone } from 'lucide-react';
+import Swal from 'sweetalert2';
+import {
+  BadgeSymbology, fetchScannerDevices, getLocalDevice, ScannerDevice, ScannerInputMode, updateScannerDevice
+} from '../lib/scannerDevices';
+import { SYMBOLOGY_LABELS } from '../lib/keyboardWedge';
+import { formatInTimeZone } from '../utils/dateTime';
+
+const INPUT_MODE_LABELS: Record<ScannerInputMode, string> = {
+  camera: 'Camera',
+  wedge: 'Handheld scanner (USB / Bluetooth)',
+};
+
+export const ScannerDevices: React.FC = () => {
+  const [devices, setDevices] = useState<ScannerDevice[]>([]);
+  const localDeviceId = getLocalDevice()?.id;
+
+  useEffect(() => {
+    fetchScannerDevices()
+      .then(setDevices)
+      .catch(error => console.error('Error fetching scanner devices:', error));
+  }, []);
+
+  const reloadDevices = async () => {
+    setDevices(await fetchScannerDevices());
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    Swal.fire({
+      icon: 'error',
+      title: 'Error',
+      text: (error as Error).message || fallback,
+      confirmButtonColor: '#EF4444',
+    });
+  };
+
+  const handleToggleEnabled = async (device: ScannerDevice) => {
+    if (device.enabled) {
+      const result = await Swal.fire({
+        title: 'Disable scanner?',
+        text: `${device.name} will stop recording punches until it is enabled again`,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonColor: '#EF4444',
+        cancelButtonColor: '#6B7280',
+        confirmButtonText: 'Yes, disable',
+      });
+      if (!result.isConfirmed) return;
+    }
+
+    try {
+      await updateScannerDevice(device.id, { enabled: !device.enabled });
+      await reloadDevices();
+    } catch (error: unknown) {
+      console.error('Error updating scanner device:', error);
+      showError(error, 'Failed to update the device');
+    }
+  };
+
+  const handleEdit = async (device: ScannerDevice) => {
+    const result = await Swal.fire({
+      title: 'Edit Scanner',
+      html: `
+        <input id="device-name" class="swal2-input" placeholder="Device name" />
+        <input id="device-location" class="swal2-input" placeholder="Location" />
+        <select id="device-input-mode" class="swal2-input">
+          ${Object.entries(INPUT_MODE_LABELS).map(([mode, label]) => `<option value="${mode}">${label}</option>`).join('')}
+        </select>
+        <select id="device-symbology" class="swal2-input">
+          ${Object.entries(SYMBOLOGY_LABELS).map(([symbology, label]) => `<option value="${symbology}">${label}</option>`).join('')}
+        </select>
+        <p class="text-xs text-gray-500 mt-2">Badge types are checked when the handheld scanner sends AIM identifiers</p>
+      `,
+      didOpen: () => {
+        (document.getElementById('device-name') as HTMLInputElement).value = device.name;
+        (document.getElementById('device-location') as HTMLInputElement).value = device.location;
+        (document.getElementById('device-input-mode') as HTMLSelectElement).value = device.input_mode;
+        (document.getElementById('device-symbology') as HTMLSelectElement).value = device.badge_symbology;
+      },
+      showCancelButton: true,
+      confirmButtonText: 'Save',
+      confirmButtonColor: '#10B981',
+      preConfirm: () => {
+        const name = (document.getElementById('device-name') as HTMLInputElement).value.trim();
+        if (!name) {
+          Swal.showValidationMessage('Enter a name for this device');
+          return false;
+        }
+        return {
+          name,
+          location: (document.getElementById('device-location') as HTMLInputElement).value.trim(),
+          input_mode: (document.getElementById('device-input-mode') as HTMLSelectElement).value as ScannerInputMode,
+          badge_symbology: (document.getElementById('device-symbology') as HTMLSelectElement).value as BadgeSymbology,
+        };
+      },
+    });
+
+    if (!result.isConfirmed || !result.value) return;
+
+    try {
+      await updateScannerDevice(device.id, result.value);
+      await reloadDevices();
+    } catch (error: unknown) {
+      console.error('Error updating scanner device:', error);
+      showError(error, 'Failed to update the device');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center mb-4">
+        <Smartphone className="h-6 w-6 text-teal-600 mr-2" />
+        <h3 className="text-xl font-semibold text-gray-900">Scanner Devices</h3>
+      </div>
+
+      {devices.length === 0 ? (
+        <p className="text-sm text-gray-500">No scanners registered yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border rounded-lg">
+          {devices.map(device => (
+            <li key={device.id} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <span className={`font-medium ${device.enabled ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                  {device.name}
+                </span>
+                {device.id === localDeviceId && (
+                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">This device</span>
+                )}
+                <div className="text-gray-500">
+                  {device.location || 'No location'}
+                  {' · '}
+                  {device.input_mode === 'wedge' ? `Handheld, ${SYMBOLOGY_LABELS[device.badge_symbology]}` : 'Camera'}
+                  {' · '}
+                  {device.last_seen_at
+                    ? `Last used ${formatInTimeZone(device.last_seen_at, 'dd/MM/yyyy HH:mm')}`
+                    : 'Not used yet'}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => handleEdit(device)}
+                  className="text-gray-600 hover:text-gray-800"
+                  title="Edit device"
+                  aria-label="Edit device"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleToggleEnabled(device)}
+                  className={`px-3 py-1 text-xs font-medium rounded-lg ${
+                    device.enabled ? 'bg-red-100 text-red-700 hover:bg-red-200' : 'bg-green-100 text-green-700 hover:bg-green-200'
+                  }`}
+                >
+                  {device.enabled ? 'Disable' : 'Enable'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-sm text-gray-500 mt-2">
+        Register a scanner from the QR Scanner on that device, then set its input here if it uses a handheld scanner.
+        Disable a lost or stolen device so it can no longer record punches.
+      </p>
+    </div>
+  );
+};
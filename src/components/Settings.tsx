@@ -7,13 +7,27 @@ import {
   AlertCircle,
   Smartphone,
   Volume2,
-  Timer
+  Timer,
+  CalendarDays,
+  Shield
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import Swal from 'sweetalert2';
 import { notificationService } from '../lib/notifications';
 import { voiceService } from '../lib/voice';
 import { NotificationSettings } from './NotificationSettings';
+import { HolidayCalendar } from './HolidayCalendar';
+import { ScannerDevices } from './ScannerDevices';
+import {
+  DEFAULT_WORK_PATTERN,
+  parseWorkPattern,
+  serializeWorkPattern,
+  WEEKDAY_NAMES,
+  WORK_DAY_TYPE_LABELS,
+  WorkDayType
+} from '../lib/workCalendar';
+import { DEFAULT_TIME_ZONE, isValidTimeZone, setOrganisationTimeZone } from '../utils/dateTime';
+import { KIOSK_PIN_PATTERN, saveKioskPin } from '../lib/kioskMode';
 
 interface SettingsData {
   work_start_time: string;
@@ -22,9 +36,36 @@ interface SettingsData {
   late_threshold: string;
   grace_period: string;
   half_day_threshold: string;
+  max_sessions_per_day: string;
+  overtime_threshold: string;
+  absence_cutoff_time: string;
+  auto_checkout_mode: string;
+  auto_checkout_hours: string;
+  checkout_cooldown_minutes: string;
+  checkin_cooldown_minutes: string;
+  duplicate_scan_seconds: string;
+  auto_torch_light_level: string;
+  organisation_timezone: string;
+  work_pattern: string;
+  qr_legacy_codes_allowed: string;
+  qr_rotating_required: string;
+  require_photo: string;
+  kiosk_pin_set: string;
   notification_enabled: string;
 }
 
+const TIME_ZONE_OPTIONS = [
+  'Asia/Colombo',
+  'Asia/Kolkata',
+  'Asia/Dhaka',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Australia/Sydney',
+  'Europe/London',
+  'America/New_York',
+  'UTC',
+];
+
 export const Settings: React.FC = () => {
   const [settings, setSettings] = useState<SettingsData>({
     work_start_time: '07:30',
@@ -33,13 +74,30 @@ export const Settings: React.FC = () => {
     late_threshold: '15',
     grace_period: '15',
     half_day_threshold: '4',
+    max_sessions_per_day: '2',
+    overtime_threshold: '30',
+    absence_cutoff_time: '10:00',
+    auto_checkout_mode: 'off',
+    auto_checkout_hours: '12',
+    checkout_cooldown_minutes: '3',
+    checkin_cooldown_minutes: '3',
+    duplicate_scan_seconds: '2',
+    auto_torch_light_level: '12',
+    organisation_timezone: DEFAULT_TIME_ZONE,
+    work_pattern: serializeWorkPattern(DEFAULT_WORK_PATTERN),
+    qr_legacy_codes_allowed: 'true',
+    qr_rotating_required: 'false',
+    require_photo: 'false',
+    kiosk_pin_set: '',
     notification_enabled: 'true',
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  // Only a new PIN is typed here; the stored value is a hash
+  const [kioskPin, setKioskPin] = useState('');
   const [notificationStatus, setNotificationStatus] = useState<'granted' | 'denied' | 'default'>('default');
   const [voiceTestPlaying, setVoiceTestPlaying] = useState(false);
-  const [activeTab, setActiveTab] = useState<'general' | 'notifications'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'calendar' | 'devices' | 'notifications'>('general');
 
   useEffect(() => {
     fetchSettings();
@@ -89,8 +147,19 @@ export const Settings: React.FC = () => {
         throw new Error('Work end time must be after work start time');
       }
 
+      if (!isValidTimeZone(settings.organisation_timezone)) {
+        throw new Error('Please select a valid organisation timezone');
+      }
+
+      if (kioskPin && !KIOSK_PIN_PATTERN.test(kioskPin)) {
+        throw new Error('Kiosk admin PIN must be 4 to 8 digits');
+      }
+      // The PIN is hashed and kept on the server; settings only record that one is set
+      if (kioskPin) await saveKioskPin(kioskPin);
+      const kioskPinSet = kioskPin ? 'true' : settings.kiosk_pin_set;
+
       // Update each setting
-      const updates = Object.entries(settings).map(([key, value]) => ({
+      const updates = Object.entries({ ...settings, kiosk_pin_set: kioskPinSet }).map(([key, value]) => ({
         key,
         value,
         updated_at: new Date().toISOString(),
@@ -104,6 +173,10 @@ export const Settings: React.FC = () => {
         if (error) throw error;
       }
 
+      setOrganisationTimeZone(settings.organisation_timezone);
+      setSettings(prev => ({ ...prev, kiosk_pin_set: kioskPinSet }));
+      setKioskPin('');
+
       Swal.fire({
         icon: 'success',
         title: 'Settings Saved',
@@ -154,6 +227,12 @@ export const Settings: React.FC = () => {
     }
   };
 
+  const handleWorkDayChange = (dayIndex: number, type: WorkDayType) => {
+    const pattern = parseWorkPattern(settings.work_pattern);
+    pattern[dayIndex] = type;
+    handleInputChange('work_pattern', serializeWorkPattern(pattern));
+  };
+
   const handleInputChange = (key: keyof SettingsData, value: string) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
@@ -214,6 +293,36 @@ export const Settings: React.FC = () => {
                   General Settings
                 </div>
               </button>
+              <button
+                onClick={() => setActiveTab('calendar')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  activeTab === 'calendar'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+                title="Holiday Calendar"
+                aria-label="Holiday Calendar"
+              >
+                <div className="flex items-center">
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  Holiday Calendar
+                </div>
+              </button>
+              <button
+                onClick={() => setActiveTab('devices')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  activeTab === 'devices'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+                title="Scanner Devices"
+                aria-label="Scanner Devices"
+              >
+                <div className="flex items-center">
+                  <Smartphone className="h-4 w-4 mr-2" />
+                  Scanner Devices
+                </div>
+              </button>
               <button
                 onClick={() => setActiveTab('notifications')}
                 className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -284,6 +393,51 @@ export const Settings: React.FC = () => {
                       />
                     </div>
                   </div>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Organisation Timezone
+                    </label>
+                    <select
+                      value={settings.organisation_timezone}
+                      onChange={(e) => handleInputChange('organisation_timezone', e.target.value)}
+                      className="input-field md:w-1/3"
+                      title="Organisation timezone"
+                      aria-label="Organisation timezone"
+                    >
+                      {Array.from(new Set([settings.organisation_timezone, ...TIME_ZONE_OPTIONS])).map(zone => (
+                        <option key={zone} value={zone}>{zone}</option>
+                      ))}
+                    </select>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Attendance days and times are shown in this timezone on every device
+                    </p>
+                  </div>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Weekly Work Pattern
+                    </label>
+                    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+                      {WEEKDAY_NAMES.map((dayName, index) => (
+                        <div key={dayName}>
+                          <span className="block text-xs text-gray-500 mb-1">{dayName}</span>
+                          <select
+                            value={parseWorkPattern(settings.work_pattern)[index]}
+                            onChange={(e) => handleWorkDayChange(index, e.target.value as WorkDayType)}
+                            className="input-field"
+                            title={`${dayName} work day type`}
+                            aria-label={`${dayName} work day type`}
+                          >
+                            {Object.entries(WORK_DAY_TYPE_LABELS).map(([type, label]) => (
+                              <option key={type} value={type}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Employees not on the roster are expected on full and half days. Work on a day off or holiday is flagged for premium pay.
+                    </p>
+                  </div>
                   <div className="bg-blue-50 rounded-lg p-4">
                     <div className="flex items-center">
                       <Timer className="h-5 w-5 text-blue-600 mr-2" />
@@ -323,7 +477,7 @@ export const Settings: React.FC = () => {
                         placeholder="Enter grace period"
                       />
                       <p className="text-sm text-gray-500 mt-1">
-                        Grace period before marking as late
+                        Minutes after the rostered shift start before marking as late
                       </p>
                     </div>
                     <div>
@@ -342,7 +496,7 @@ export const Settings: React.FC = () => {
                         placeholder="Enter late threshold"
                       />
                       <p className="text-sm text-gray-500 mt-1">
-                        Maximum late minutes before penalty
+                        Late minutes before flagging as very late
                       </p>
                     </div>
                     <div>
@@ -365,6 +519,259 @@ export const Settings: React.FC = () => {
                         Minimum hours for half-day attendance
                       </p>
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Sessions per Day
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="8"
+                        value={settings.max_sessions_per_day}
+                        onChange={(e) => handleInputChange('max_sessions_per_day', e.target.value)}
+                        className="input-field"
+                        title="Maximum check-in/check-out sessions per day"
+                        aria-label="Maximum check-in/check-out sessions per day"
+                        placeholder="Enter sessions per day"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        Check-in/check-out pairs allowed per day
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Overtime Alert (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="480"
+                        value={settings.overtime_threshold}
+                        onChange={(e) => handleInputChange('overtime_threshold', e.target.value)}
+                        className="input-field"
+                        title="Overtime alert threshold in minutes"
+                        aria-label="Overtime alert threshold in minutes"
+                        placeholder="Enter overtime threshold"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        Overtime beyond the shift (less break) before an alert is sent
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Absence Cut-off Time
+                      </label>
+                      <input
+                        type="time"
+                        value={settings.absence_cutoff_time}
+                        onChange={(e) => handleInputChange('absence_cutoff_time', e.target.value)}
+                        className="input-field"
+                        title="Absence cut-off time"
+                        aria-label="Absence cut-off time"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        Employees with no check-in by this time are marked absent and alerted
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Auto Check-Out
+                      </label>
+                      <select
+                        value={settings.auto_checkout_mode}
+                        onChange={(e) => handleInputChange('auto_checkout_mode', e.target.value)}
+                        className="input-field"
+                        title="Auto check-out policy"
+                        aria-label="Auto check-out policy"
+                      >
+                        <option value="off">Off</option>
+                        <option value="shift_end">At rostered shift end</option>
+                        <option value="work_end">At work end time</option>
+                        <option value="after_hours">After a number of hours</option>
+                      </select>
+                      <p className="text-sm text-gray-500 mt-1">
+                        Fills forgotten check-outs; supervisors review them in Reports
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Auto Check-Out After (hours)
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="24"
+                        value={settings.auto_checkout_hours}
+                        onChange={(e) => handleInputChange('auto_checkout_hours', e.target.value)}
+                        className="input-field"
+                        title="Hours after check-in before auto check-out"
+                        aria-label="Hours after check-in before auto check-out"
+                        placeholder="Enter hours"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        Sessions still open this long after check-in count as forgotten; in the shift and work end modes the check-out is then set to the scheduled end
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Check-In to Check-Out Gap (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="240"
+                        value={settings.checkout_cooldown_minutes}
+                        onChange={(e) => handleInputChange('checkout_cooldown_minutes', e.target.value)}
+                        className="input-field"
+                        title="Minimum minutes from a check-in to its check-out"
+                        aria-label="Minimum minutes from a check-in to its check-out"
+                        placeholder="Enter minutes"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        A check-out sooner than this after checking in is refused
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Check-Out to Check-In Gap (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="240"
+                        value={settings.checkin_cooldown_minutes}
+                        onChange={(e) => handleInputChange('checkin_cooldown_minutes', e.target.value)}
+                        className="input-field"
+                        title="Minimum minutes from a check-out to the next check-in"
+                        aria-label="Minimum minutes from a check-out to the next check-in"
+                        placeholder="Enter minutes"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        Stops a badge being passed back to someone else at the gate
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Duplicate Scan Window (seconds)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="60"
+                        value={settings.duplicate_scan_seconds}
+                        onChange={(e) => handleInputChange('duplicate_scan_seconds', e.target.value)}
+                        className="input-field"
+                        title="Seconds a repeat read of the same badge is ignored"
+                        aria-label="Seconds a repeat read of the same badge is ignored"
+                        placeholder="Enter seconds"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        Repeat reads of a badge held in front of the camera are ignored
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Auto Torch Below Light Level (%)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={settings.auto_torch_light_level}
+                        onChange={(e) => handleInputChange('auto_torch_light_level', e.target.value)}
+                        className="input-field"
+                        title="Light level below which the scanner turns on the torch"
+                        aria-label="Light level below which the scanner turns on the torch"
+                        placeholder="Enter a percentage"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        The torch turns off again once it is bright enough. 0 leaves the torch to the flash button
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Badge Security */}
+                <div>
+                  <div className="flex items-center mb-4">
+                    <Shield className="h-6 w-6 text-red-600 mr-2" />
+                    <h3 className="text-xl font-semibold text-gray-900">Badge Security</h3>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Old EMP_ QR Codes
+                      </label>
+                      <select
+                        value={settings.qr_legacy_codes_allowed}
+                        onChange={(e) => handleInputChange('qr_legacy_codes_allowed', e.target.value)}
+                        className="input-field"
+                        title="Accept old static QR codes"
+                        aria-label="Accept old static QR codes"
+                      >
+                        <option value="true">Accepted (migration window open)</option>
+                        <option value="false">Rejected (migration window closed)</option>
+                      </select>
+                      <p className="text-sm text-gray-500 mt-1">
+                        Close the window once everyone has a signed badge
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Accepted Badges
+                      </label>
+                      <select
+                        value={settings.qr_rotating_required}
+                        onChange={(e) => handleInputChange('qr_rotating_required', e.target.value)}
+                        className="input-field"
+                        title="Accepted badge types"
+                        aria-label="Accepted badge types"
+                      >
+                        <option value="false">Printed signed badges and phone codes</option>
+                        <option value="true">Rotating phone codes only</option>
+                      </select>
+                      <p className="text-sm text-gray-500 mt-1">
+                        Phone codes change every 30 seconds, so photos of a badge cannot be used
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Punch Photo
+                      </label>
+                      <select
+                        value={settings.require_photo}
+                        onChange={(e) => handleInputChange('require_photo', e.target.value)}
+                        className="input-field"
+                        title="Take a photo at each scan"
+                        aria-label="Take a photo at each scan"
+                      >
+                        <option value="false">Off</option>
+                        <option value="true">Required at every scan</option>
+                      </select>
+                      <p className="text-sm text-gray-500 mt-1">
+                        A still from the scanner camera is kept with each punch for disputes
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Kiosk Admin PIN
+                      </label>
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="new-password"
+                        value={kioskPin}
+                        onChange={(e) => setKioskPin(e.target.value.replace(/\D/g, ''))}
+                        className="input-field"
+                        title="Kiosk admin PIN"
+                        aria-label="Kiosk admin PIN"
+                        placeholder={settings.kiosk_pin_set === 'true' ? 'Leave blank to keep the current PIN' : 'Enter 4 to 8 digits'}
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        {settings.kiosk_pin_set === 'true' ? 'PIN is set. ' : 'Required before a tablet can be locked. '}
+                        Needed to leave kiosk mode on the gate tablet
+                      </p>
+                    </div>
                   </div>
                 </div>
 
@@ -449,6 +856,10 @@ export const Settings: React.FC = () => {
                   </button>
                 </div>
               </form>
+            ) : activeTab === 'calendar' ? (
+              <HolidayCalendar />
+            ) : activeTab === 'devices' ? (
+              <ScannerDevices />
             ) : (
               <NotificationSettings />
             )}
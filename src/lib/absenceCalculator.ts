@@ -0,0 +1,222 @@
+// Absence Calculator - finds employees expected at work with no attendance record, and the daily cut-off alert job
+import { supabase } from './supabase';
+import { oneSignalService } from './oneSignalService';
+import { fetchSettingsMap, loadOrganisationTimeZone } from './attendanceSettings';
+import { fetchApprovedLeave, LeaveType } from './leaveService';
+import { fetchWorkCalendar, getCalendarDay, isWorkingDay } from './workCalendar';
+import { addBusinessDays, getBusinessDate, zonedDateTimeToUtc } from '../utils/dateTime';
+
+export interface AbsenceEmployee {
+  first_name: string;
+  last_name: string;
+  department_id: string | null;
+  departments?: {
+    name: string;
+  };
+}
+
+export interface AbsenceRow {
+  employee_id: string;
+  date: string;
+  // 'rostered' = on duty in the roster but never scanned; 'working_day' = no roster, working day in the work pattern;
+  // 'leave' = expected at work but on approved leave, so not counted absent
+  reason: 'rostered' | 'working_day' | 'leave';
+  shift_start: string | null;
+  leave_type: LeaveType | null;
+  employees: AbsenceEmployee;
+}
+
+export const DEFAULT_ABSENCE_CUTOFF_TIME = '10:00';
+
+const listDates = (start: string, end: string): string[] => {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addBusinessDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+// How far back a roster entry marks an employee as roster-managed
+const ROSTER_LOOKBACK_DAYS = 7;
+
+const fetchCutoffTime = async (): Promise<string> => {
+  const settingsMap = await fetchSettingsMap();
+  return settingsMap.absence_cutoff_time || DEFAULT_ABSENCE_CUTOFF_TIME;
+};
+
+/**
+ * Compares active employees and their roster against attendance records for
+ * the range. Roster-managed employees are only expected on their rostered
+ * days; everyone else on the working days of the weekly work pattern. Public
+ * holidays are never counted. Today only counts once the cut-off has passed,
+ * and a rostered shift only once it has started.
+ * Employees on approved leave are returned with reason 'leave'.
+ */
+export const calculateAbsences = async (
+  start: string,
+  end: string,
+  options: { departmentId?: string; cutoffTime?: string; asOf?: Date } = {}
+): Promise<AbsenceRow[]> => {
+  await loadOrganisationTimeZone();
+  const asOf = options.asOf || new Date();
+  const today = getBusinessDate(asOf);
+  const cutoffTime = options.cutoffTime || await fetchCutoffTime();
+  const cutoffPassed = asOf.getTime() >= zonedDateTimeToUtc(today, cutoffTime).getTime();
+  const lastDate = end < today ? end : cutoffPassed ? today : addBusinessDays(today, -1);
+  if (lastDate < start) return [];
+
+  let employeeQuery = supabase
+    .from('employees')
+    .select('id, first_name, last_name, department_id, created_at, departments(name)')
+    .eq('is_active', true);
+
+  if (options.departmentId) {
+    employeeQuery = employeeQuery.eq('department_id', options.departmentId);
+  }
+
+  const [employeesResult, rostersResult, attendanceResult, leaveDays, calendar] = await Promise.all([
+    employeeQuery,
+    supabase
+      .from('rosters')
+      .select('employee_id, date, shift_start')
+      .gte('date', addBusinessDays(start, -ROSTER_LOOKBACK_DAYS))
+      .lte('date', lastDate),
+    supabase
+      .from('attendance_records')
+      .select('employee_id, date')
+      .gte('date', start)
+      .lte('date', lastDate),
+    fetchApprovedLeave(start, lastDate),
+    fetchWorkCalendar(start, lastDate),
+  ]);
+
+  if (employeesResult.error) throw employeesResult.error;
+  if (rostersResult.error) throw rostersResult.error;
+  if (attendanceResult.error) throw attendanceResult.error;
+
+  const attended = new Set((attendanceResult.data || []).map(record => `${record.employee_id}_${record.date}`));
+  const rosterShifts = new Map<string, string>();
+  const rosteredEmployees = new Set<string>();
+  (rostersResult.data || []).forEach(roster => {
+    rosterShifts.set(`${roster.employee_id}_${roster.date}`, roster.shift_start);
+    rosteredEmployees.add(roster.employee_id);
+  });
+
+  const absences: AbsenceRow[] = [];
+  const dates = listDates(start, lastDate).filter(date => !getCalendarDay(calendar, date).holiday);
+
+  (employeesResult.data || []).forEach(employee => {
+    const joinedOn = employee.created_at ? getBusinessDate(new Date(employee.created_at)) : start;
+
+    dates.forEach(date => {
+      const key = `${employee.id}_${date}`;
+      if (date < joinedOn || attended.has(key)) return;
+
+      const shiftStart = rosterShifts.get(key) || null;
+      if (shiftStart) {
+        if (zonedDateTimeToUtc(date, shiftStart).getTime() > asOf.getTime()) return;
+      } else if (rosteredEmployees.has(employee.id) || !isWorkingDay(calendar, date)) {
+        return;
+      }
+
+      const leaveType = leaveDays.get(key) || null;
+      absences.push({
+        employee_id: employee.id,
+        date,
+        reason: leaveType ? 'leave' : shiftStart ? 'rostered' : 'working_day',
+        shift_start: shiftStart,
+        leave_type: leaveType,
+        employees: {
+          first_name: employee.first_name,
+          last_name: employee.last_name,
+          department_id: employee.department_id,
+          departments: Array.isArray(employee.departments) ? employee.departments[0] : employee.departments,
+        },
+      });
+    });
+  });
+
+  return absences;
+};
+
+/**
+ * Runs the absence check once a day after the configured cut-off time and
+ * sends an absence alert for each missing employee. The last run date is kept
+ * in localStorage so reloading the app does not repeat the alerts.
+ */
+export class AbsenceMonitor {
+  private static instance: AbsenceMonitor;
+  private readonly storageKey = 'absence-monitor-last-run';
+  private readonly checkIntervalMs = 60 * 1000;
+  private timer: number | null = null;
+  private isRunning: boolean = false;
+
+  private constructor() {}
+
+  static getInstance(): AbsenceMonitor {
+    if (!AbsenceMonitor.instance) {
+      AbsenceMonitor.instance = new AbsenceMonitor();
+    }
+    return AbsenceMonitor.instance;
+  }
+
+  start(): void {
+    if (this.timer !== null) return;
+    this.timer = window.setInterval(() => this.check(), this.checkIntervalMs);
+    this.check();
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async check(): Promise<void> {
+    if (this.isRunning || !navigator.onLine) return;
+
+    this.isRunning = true;
+    try {
+      await loadOrganisationTimeZone();
+      const today = getBusinessDate();
+      if (localStorage.getItem(this.storageKey) === today) return;
+
+      const cutoffTime = await fetchCutoffTime();
+      if (Date.now() < zonedDateTimeToUtc(today, cutoffTime).getTime()) return;
+
+      const absences = await calculateAbsences(today, today, { cutoffTime });
+      const claimed = await this.claimRun(today);
+      localStorage.setItem(this.storageKey, today);
+      if (!claimed) return;
+
+      for (const absence of absences.filter(item => item.reason !== 'leave')) {
+        await oneSignalService.notifyAbsence(
+          `${absence.employees.first_name} ${absence.employees.last_name}`,
+          today
+        );
+      }
+    } catch (error) {
+      console.error('Absence check failed:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Every open client runs this check, so the day's alerts are claimed with a
+   * row keyed by date. Only the client whose insert succeeds sends them.
+   */
+  private async claimRun(date: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('absence_alert_runs')
+      .insert({ date });
+
+    if (!error) return true;
+    // 23505 is a unique violation: another client already sent today's alerts
+    if (error.code === '23505') return false;
+    throw error;
+  }
+}
+
+export const absenceMonitor = AbsenceMonitor.getInstance();
@@ -0,0 +1,271 @@
+// Attendance Corrections - manual entry and editing of a day's punches with an audit trail
+import { supabase } from './supabase';
+import {
+  AttendanceSession,
+  calculateLateness,
+  calculateOvertimeMinutes,
+  calculateTotalHours,
+  correctSessionTimes,
+  getSessions,
+  ShiftSchedule,
+  toRecordColumns,
+} from './attendanceEngine';
+import { fetchAttendanceRules, fetchRosterShift } from './attendanceSettings';
+import { fetchScanEvents, replayScanEvents } from './scanEvents';
+import { fetchIsHalfDay } from './workCalendar';
+
+// Remembers who last made a correction on this device, so they need not type their name every time
+export const CORRECTION_EDITOR_STORAGE_KEY = 'attendance-corrections-editor';
+
+export interface AttendanceSnapshot {
+  sessions: AttendanceSession[];
+  total_hours: number;
+  is_late: boolean;
+  late_duration: number;
+  overtime_minutes: number;
+}
+
+export interface AttendanceAuditEntry {
+  id: string;
+  attendance_record_id: string | null;
+  employee_id: string;
+  date: string;
+  action: 'create' | 'update';
+  changed_by: string;
+  reason: string;
+  before: AttendanceSnapshot | null;
+  after: AttendanceSnapshot;
+  created_at: string;
+}
+
+export interface AttendanceCorrection {
+  employeeId: string;
+  date: string;
+  sessions: AttendanceSession[];
+  reason: string;
+  changedBy: string;
+}
+
+const toSnapshot = (record: {
+  sessions?: AttendanceSession[] | null;
+  total_hours?: number;
+  is_late?: boolean;
+  late_duration?: number;
+  overtime_minutes?: number;
+}): AttendanceSnapshot => ({
+  sessions: getSessions(record),
+  total_hours: record.total_hours || 0,
+  is_late: record.is_late || false,
+  late_duration: record.late_duration || 0,
+  overtime_minutes: record.overtime_minutes || 0,
+});
+
+/** Sessions must be in order, non-overlapping, and only the last may be left open. */
+export const validateSessions = (sessions: AttendanceSession[], maxSessions: number): string | null => {
+  if (sessions.length === 0) return 'Enter at least one check-in';
+  if (sessions.length > maxSessions) return `No more than ${maxSessions} sessions are allowed per day`;
+
+  for (let i = 0; i < sessions.length; i++) {
+    const checkIn = new Date(sessions[i].check_in).getTime();
+    const checkOut = sessions[i].check_out ? new Date(sessions[i].check_out!).getTime() : null;
+
+    if (checkOut === null && i < sessions.length - 1) {
+      return `Session ${i + 1} needs a check-out before another check-in`;
+    }
+    if (checkOut !== null && checkOut <= checkIn) {
+      return `Session ${i + 1} check-out must be after its check-in`;
+    }
+    const previous = sessions[i - 1];
+    if (previous?.check_out && checkIn < new Date(previous.check_out).getTime()) {
+      return `Session ${i + 1} starts before session ${i} ends`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Creates or replaces an employee's punches for a day. Totals, lateness and
+ * overtime are recomputed exactly as a scan would, the record is flagged as
+ * manually edited, and the before/after values go to the audit table.
+ */
+export const saveAttendanceCorrection = async (correction: AttendanceCorrection): Promise<void> => {
+  const reason = correction.reason.trim();
+  const changedBy = correction.changedBy.trim();
+  if (!reason) throw new Error('A reason is required for every correction');
+  if (!changedBy) throw new Error('Enter who is making the correction');
+
+  const rules = await fetchAttendanceRules();
+  const validationError = validateSessions(correction.sessions, rules.maxSessionsPerDay);
+  if (validationError) throw new Error(validationError);
+
+  const { data: existingRecord, error: fetchError } = await supabase
+    .from('attendance_records')
+    .select('*')
+    .eq('employee_id', correction.employeeId)
+    .eq('date', correction.date)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+
+  const [shift, halfDay] = await Promise.all([
+    fetchRosterShift(correction.employeeId, correction.date),
+    fetchIsHalfDay(correction.date),
+  ]);
+  const schedule: ShiftSchedule = {
+    date: correction.date,
+    shiftStart: shift?.shift_start || null,
+    shiftEnd: shift?.shift_end || null,
+    breakDuration: shift?.break_duration,
+    halfDay,
+  };
+
+  const previousSessions = getSessions(existingRecord);
+  const sessions = correction.sessions.map((session, index) =>
+    correctSessionTimes(previousSessions[index], session.check_in, session.check_out)
+  );
+  const lateness = calculateLateness(new Date(sessions[0].check_in), rules, schedule);
+  const after: AttendanceSnapshot = {
+    sessions,
+    total_hours: calculateTotalHours(sessions),
+    is_late: lateness.isLate,
+    late_duration: lateness.lateMinutes,
+    overtime_minutes: calculateOvertimeMinutes(sessions, rules, schedule),
+  };
+  // Sessions kept as they were are still the system's check-outs
+  const stillAutoClosed = sessions.some(session => session.auto_closed);
+
+  const { data: savedRecord, error: saveError } = await supabase
+    .from('attendance_records')
+    .upsert({
+      ...existingRecord,
+      employee_id: correction.employeeId,
+      date: correction.date,
+      ...toRecordColumns(sessions),
+      total_hours: after.total_hours,
+      is_late: after.is_late,
+      late_duration: after.late_duration,
+      overtime_minutes: after.overtime_minutes,
+      auto_closed: stillAutoClosed,
+      auto_close_reviewed: !stillAutoClosed,
+      manually_edited: true,
+    }, { onConflict: 'employee_id,date' })
+    .select('id')
+    .single();
+
+  if (saveError) throw saveError;
+
+  const { error: auditError } = await supabase
+    .from('attendance_audit_log')
+    .insert({
+      attendance_record_id: savedRecord?.id || null,
+      employee_id: correction.employeeId,
+      date: correction.date,
+      action: existingRecord ? 'update' : 'create',
+      changed_by: changedBy,
+      reason,
+      before: existingRecord ? toSnapshot(existingRecord) : null,
+      after,
+    });
+
+  if (auditError) throw auditError;
+};
+
+/**
+ * Rebuilds a day's record from the scan event log under the current rules,
+ * replacing any manual correction. The change is recorded in the audit trail
+ * like any other correction.
+ */
+export const rebuildFromScanLog = async (rebuild: {
+  employeeId: string;
+  date: string;
+  reason: string;
+  changedBy: string;
+}): Promise<void> => {
+  const reason = rebuild.reason.trim();
+  const changedBy = rebuild.changedBy.trim();
+  if (!reason) throw new Error('A reason is required for every correction');
+  if (!changedBy) throw new Error('Enter who is making the correction');
+
+  const [rules, events, shift, halfDay] = await Promise.all([
+    fetchAttendanceRules(),
+    fetchScanEvents(rebuild.employeeId, rebuild.date),
+    fetchRosterShift(rebuild.employeeId, rebuild.date),
+    fetchIsHalfDay(rebuild.date),
+  ]);
+  const schedule: ShiftSchedule = {
+    date: rebuild.date,
+    shiftStart: shift?.shift_start || null,
+    shiftEnd: shift?.shift_end || null,
+    breakDuration: shift?.break_duration,
+    halfDay,
+  };
+
+  const replay = replayScanEvents(events, rules, schedule);
+  if (replay.sessions.length === 0) {
+    throw new Error('No logged scans for this day are accepted under the current rules');
+  }
+
+  const { data: existingRecord, error: fetchError } = await supabase
+    .from('attendance_records')
+    .select('*')
+    .eq('employee_id', rebuild.employeeId)
+    .eq('date', rebuild.date)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+
+  const after: AttendanceSnapshot = {
+    sessions: replay.sessions,
+    total_hours: replay.totalHours,
+    is_late: replay.lateness?.isLate || false,
+    late_duration: replay.lateness?.lateMinutes || 0,
+    overtime_minutes: replay.overtimeMinutes,
+  };
+
+  const { data: savedRecord, error: saveError } = await supabase
+    .from('attendance_records')
+    .upsert({
+      ...existingRecord,
+      employee_id: rebuild.employeeId,
+      date: rebuild.date,
+      ...toRecordColumns(replay.sessions),
+      total_hours: after.total_hours,
+      is_late: after.is_late,
+      late_duration: after.late_duration,
+      overtime_minutes: after.overtime_minutes,
+      auto_closed: replay.autoClosed,
+      auto_close_reviewed: replay.autoClosed ? false : existingRecord?.auto_close_reviewed || false,
+      manually_edited: false,
+    }, { onConflict: 'employee_id,date' })
+    .select('id')
+    .single();
+
+  if (saveError) throw saveError;
+
+  const { error: auditError } = await supabase
+    .from('attendance_audit_log')
+    .insert({
+      attendance_record_id: savedRecord?.id || null,
+      employee_id: rebuild.employeeId,
+      date: rebuild.date,
+      action: existingRecord ? 'update' : 'create',
+      changed_by: changedBy,
+      reason,
+      before: existingRecord ? toSnapshot(existingRecord) : null,
+      after,
+    });
+
+  if (auditError) throw auditError;
+};
+
+export const fetchAuditTrail = async (employeeId: string, date: string): Promise<AttendanceAuditEntry[]> => {
+  const { data, error } = await supabase
+    .from('attendance_audit_log')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .eq('date', date)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
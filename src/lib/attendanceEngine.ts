@@ -0,0 +1,532 @@
+// Attendance Engine - pure punch state machine shared by the scanner, dashboard and reports
+import { addBusinessDays, DEFAULT_TIME_ZONE, getBusinessDate, zonedDateTimeToUtc } from '../utils/dateTime';
+
+export type PunchAction = 'check-in' | 'check-out';
+
+// qr: badge scanned by the camera; pin: employee looked up by hand and confirmed with their PIN
+export type PunchMethod = 'qr' | 'pin';
+
+export interface AttendanceSession {
+  check_in: string;
+  check_out: string | null;
+  // Set when the check-out was filled in by the auto check-out policy
+  auto_closed?: boolean;
+  // Scanner device that recorded each punch; missing for manual entries and older records
+  check_in_device?: string;
+  check_out_device?: string;
+  // Only stored for manual PIN punches; a missing method is a badge scan
+  check_in_method?: PunchMethod;
+  check_out_method?: PunchMethod;
+}
+
+export type AutoCheckOutMode = 'off' | 'shift_end' | 'work_end' | 'after_hours';
+
+export interface AutoCheckOutPolicy {
+  mode: AutoCheckOutMode;
+  hours: number;
+}
+
+export interface AttendanceRules {
+  maxSessionsPerDay: number;
+  // Anti-passback: minimum time from a check-in to its check-out, and from a check-out to the next check-in
+  minCheckOutGapMs: number;
+  minCheckInGapMs: number;
+  // Repeat reads of the same badge within this window are ignored by the scanner
+  duplicateScanWindowMs: number;
+  workStartTime: string;
+  workEndTime: string;
+  defaultBreakMinutes: number;
+  gracePeriodMinutes: number;
+  lateThresholdMinutes: number;
+  overtimeThresholdMinutes: number;
+  autoCheckOut: AutoCheckOutPolicy;
+  timeZone: string;
+}
+
+export interface Lateness {
+  scheduledStart: string;
+  lateMinutes: number;
+  isLate: boolean;
+  exceedsThreshold: boolean;
+}
+
+export interface ShiftSchedule {
+  date: string;
+  shiftStart: string | null;
+  shiftEnd?: string | null;
+  breakDuration?: number;
+  // Half working day in the work calendar; without a roster only half the default day is expected
+  halfDay?: boolean;
+}
+
+export interface SessionRecord {
+  sessions?: AttendanceSession[] | null;
+  first_check_in?: string | null;
+  first_check_out?: string | null;
+  second_check_in?: string | null;
+  second_check_out?: string | null;
+}
+
+export interface SessionColumns {
+  sessions: AttendanceSession[];
+  first_check_in: string | null;
+  first_check_out: string | null;
+  second_check_in: string | null;
+  second_check_out: string | null;
+}
+
+export interface Punch {
+  action: PunchAction;
+  sessionIndex: number;
+  time: string;
+}
+
+export type ScanErrorCode = 'cooldown' | 'day_complete' | 'out_of_order';
+
+export type ScanOutcome =
+  | {
+      ok: true;
+      sessions: AttendanceSession[];
+      punch: Punch;
+      totalHours: number;
+      overtimeMinutes: number;
+      lateness: Lateness | null;
+    }
+  | {
+      ok: false;
+      code: ScanErrorCode;
+      message: string;
+      remainingMs?: number;
+    };
+
+export const DEFAULT_ATTENDANCE_RULES: AttendanceRules = {
+  maxSessionsPerDay: 2,
+  minCheckOutGapMs: 3 * 60 * 1000, // 3 minutes
+  minCheckInGapMs: 3 * 60 * 1000, // 3 minutes
+  duplicateScanWindowMs: 2000, // 2 seconds
+  workStartTime: '09:00',
+  workEndTime: '17:00',
+  defaultBreakMinutes: 60,
+  gracePeriodMinutes: 0,
+  lateThresholdMinutes: 15,
+  overtimeThresholdMinutes: 30,
+  autoCheckOut: { mode: 'off', hours: 12 },
+  timeZone: DEFAULT_TIME_ZONE,
+};
+
+// How long after an overnight shift ends a check-out is still attached to that shift
+export const OVERNIGHT_CHECKOUT_ALLOWANCE_MS = 4 * 60 * 60 * 1000;
+
+const ORDINALS = ['First', 'Second', 'Third', 'Fourth', 'Fifth', 'Sixth', 'Seventh', 'Eighth'];
+
+/**
+ * Reads the punch sessions of a record. Records written before the `sessions`
+ * column existed only carry the four legacy columns, so those are folded back
+ * into sessions.
+ */
+export const getSessions = (record: SessionRecord | null | undefined): AttendanceSession[] => {
+  if (!record) return [];
+
+  if (record.sessions && record.sessions.length > 0) {
+    return record.sessions.map(session => ({ ...session }));
+  }
+
+  const sessions: AttendanceSession[] = [];
+  if (record.first_check_in) {
+    sessions.push({ check_in: record.first_check_in, check_out: record.first_check_out || null });
+  }
+  if (record.second_check_in) {
+    sessions.push({ check_in: record.second_check_in, check_out: record.second_check_out || null });
+  }
+  return sessions;
+};
+
+/**
+ * Maps sessions onto the columns stored in `attendance_records`. The first two
+ * sessions are mirrored into the legacy columns so older screens keep working.
+ */
+export const toRecordColumns = (sessions: AttendanceSession[]): SessionColumns => ({
+  sessions,
+  first_check_in: sessions[0]?.check_in || null,
+  first_check_out: sessions[0]?.check_out || null,
+  second_check_in: sessions[1]?.check_in || null,
+  second_check_out: sessions[1]?.check_out || null,
+});
+
+export const calculateWorkedMinutes = (sessions: AttendanceSession[]): number => {
+  return sessions.reduce((total, session) => {
+    if (!session.check_out) return total;
+    const diff = new Date(session.check_out).getTime() - new Date(session.check_in).getTime();
+    return total + Math.max(0, diff) / (1000 * 60);
+  }, 0);
+};
+
+export const calculateTotalHours = (sessions: AttendanceSession[]): number => {
+  return Number((calculateWorkedMinutes(sessions) / 60).toFixed(2));
+};
+
+const toMinutesOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/** A shift whose end is not after its start finishes on the following day. */
+export const isOvernightShift = (shiftStart: string, shiftEnd: string): boolean => {
+  return toMinutesOfDay(shiftEnd) <= toMinutesOfDay(shiftStart);
+};
+
+export const getShiftDurationMinutes = (shiftStart: string, shiftEnd: string): number => {
+  const diff = toMinutesOfDay(shiftEnd) - toMinutesOfDay(shiftStart);
+  return diff > 0 ? diff : diff + 24 * 60;
+};
+
+export const getShiftWindow = (
+  date: string,
+  shiftStart: string,
+  shiftEnd: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): { start: Date; end: Date; overnight: boolean } => {
+  const overnight = isOvernightShift(shiftStart, shiftEnd);
+  return {
+    start: zonedDateTimeToUtc(date, shiftStart, timeZone),
+    end: zonedDateTimeToUtc(overnight ? addBusinessDays(date, 1) : date, shiftEnd, timeZone),
+    overnight,
+  };
+};
+
+/**
+ * Picks the attendance date a scan belongs to. Scans after midnight that close
+ * (or fall inside) the previous day's overnight shift are filed on the shift's
+ * start date rather than the calendar date of the scan.
+ */
+export const resolveAttendanceDate = (
+  scannedAt: Date,
+  timeZone: string,
+  previousShift: ShiftSchedule | null,
+  previousRecord: SessionRecord | null
+): string => {
+  const today = getBusinessDate(scannedAt, timeZone);
+  if (!previousShift?.shiftStart || !previousShift.shiftEnd) return today;
+  if (!isOvernightShift(previousShift.shiftStart, previousShift.shiftEnd)) return today;
+
+  const window = getShiftWindow(previousShift.date, previousShift.shiftStart, previousShift.shiftEnd, timeZone);
+  const latest = getLatestPunch(getSessions(previousRecord));
+
+  if (latest?.action === 'check-in' && scannedAt.getTime() <= window.end.getTime() + OVERNIGHT_CHECKOUT_ALLOWANCE_MS) {
+    return previousShift.date;
+  }
+  if (!latest && scannedAt.getTime() < window.end.getTime()) {
+    return previousShift.date;
+  }
+  return today;
+};
+
+export const calculateLateMinutes = (
+  checkIn: Date,
+  scheduledStart: string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  date: string = getBusinessDate(checkIn, timeZone)
+): number => {
+  const scheduleTime = zonedDateTimeToUtc(date, scheduledStart, timeZone);
+  const diff = checkIn.getTime() - scheduleTime.getTime();
+  return diff > 0 ? Math.round(diff / (1000 * 60)) : 0;
+};
+
+/**
+ * Lateness of the day's first check-in against the employee's rostered shift
+ * start, falling back to the global work start time. Arrivals within the grace
+ * period are not late; `exceedsThreshold` marks arrivals past the late threshold.
+ */
+export const calculateLateness = (
+  checkIn: Date,
+  rules: AttendanceRules,
+  schedule?: ShiftSchedule | null
+): Lateness => {
+  const scheduledStart = schedule?.shiftStart || rules.workStartTime;
+  const lateMinutes = calculateLateMinutes(checkIn, scheduledStart, rules.timeZone, schedule?.date);
+  const isLate = lateMinutes > rules.gracePeriodMinutes;
+
+  return {
+    scheduledStart,
+    lateMinutes: isLate ? lateMinutes : 0,
+    isLate,
+    exceedsThreshold: isLate && lateMinutes > rules.lateThresholdMinutes,
+  };
+};
+
+/**
+ * Minutes an employee is expected to work: the rostered shift length minus its
+ * break, or the default working day from settings when there is no roster.
+ * The default day is halved on the calendar's half days.
+ */
+export const getScheduledWorkMinutes = (
+  rules: AttendanceRules,
+  schedule?: ShiftSchedule | null
+): number => {
+  if (schedule?.shiftStart && schedule.shiftEnd) {
+    const breakMinutes = schedule.breakDuration ?? rules.defaultBreakMinutes;
+    return Math.max(0, getShiftDurationMinutes(schedule.shiftStart, schedule.shiftEnd) - breakMinutes);
+  }
+  const fullDay = Math.max(0, getShiftDurationMinutes(rules.workStartTime, rules.workEndTime) - rules.defaultBreakMinutes);
+  return schedule?.halfDay ? Math.round(fullDay / 2) : fullDay;
+};
+
+/**
+ * End of the default working day on a date. A half day ends once its halved
+ * working minutes have passed from the work start time, with no break.
+ */
+export const getWorkEnd = (rules: AttendanceRules, schedule: ShiftSchedule): Date => {
+  if (!schedule.halfDay) return zonedDateTimeToUtc(schedule.date, rules.workEndTime, rules.timeZone);
+
+  const start = zonedDateTimeToUtc(schedule.date, rules.workStartTime, rules.timeZone);
+  return new Date(start.getTime() + getScheduledWorkMinutes(rules, { date: schedule.date, shiftStart: null, halfDay: true }) * 60 * 1000);
+};
+
+export const calculateOvertimeMinutes = (
+  sessions: AttendanceSession[],
+  rules: AttendanceRules,
+  schedule?: ShiftSchedule | null
+): number => {
+  const overtime = calculateWorkedMinutes(sessions) - getScheduledWorkMinutes(rules, schedule);
+  return overtime > 0 ? Math.round(overtime) : 0;
+};
+
+export const getLatestPunch = (sessions: AttendanceSession[]): Punch | null => {
+  const sessionIndex = sessions.length - 1;
+  const last = sessions[sessionIndex];
+  if (!last) return null;
+
+  return last.check_out
+    ? { action: 'check-out', sessionIndex, time: last.check_out }
+    : { action: 'check-in', sessionIndex, time: last.check_in };
+};
+
+export const getNextAction = (sessions: AttendanceSession[]): PunchAction => {
+  const latest = getLatestPunch(sessions);
+  return latest?.action === 'check-in' ? 'check-out' : 'check-in';
+};
+
+/** Human readable label, e.g. "First Check In" or "Third Check Out". */
+export const describePunch = (punch: Pick<Punch, 'action' | 'sessionIndex'>): string => {
+  const ordinal = ORDINALS[punch.sessionIndex] || `#${punch.sessionIndex + 1}`;
+  return `${ordinal} ${punch.action === 'check-in' ? 'Check In' : 'Check Out'}`;
+};
+
+/** Key used by voice and push notifications, e.g. "first_check_in". */
+export const getPunchKey = (punch: Pick<Punch, 'action' | 'sessionIndex'>): string => {
+  const ordinal = (ORDINALS[punch.sessionIndex] || `session_${punch.sessionIndex + 1}`).toLowerCase();
+  return `${ordinal}_${punch.action === 'check-in' ? 'check_in' : 'check_out'}`;
+};
+
+export interface AutoCheckOut {
+  // When the session counts as forgotten and is closed
+  closeAt: Date;
+  // The check-out time written for it
+  checkOut: Date;
+}
+
+/**
+ * When and how an open session is closed under the auto check-out policy.
+ * A session only counts as forgotten N hours after check-in, so people who
+ * stay past their shift can still check out themselves. It is then closed at
+ * the rostered shift end or the configured work end time on the record's
+ * date, or at the N hours in `after_hours` mode. The N hours are used as the
+ * check-out too when the scheduled end is not after the check-in (e.g. a
+ * second session started after hours).
+ */
+export const getAutoCheckOut = (
+  session: AttendanceSession,
+  rules: AttendanceRules,
+  schedule: ShiftSchedule
+): AutoCheckOut | null => {
+  const { mode, hours } = rules.autoCheckOut;
+  if (mode === 'off' || session.check_out) return null;
+
+  const checkIn = new Date(session.check_in);
+  const afterHours = new Date(checkIn.getTime() + hours * 60 * 60 * 1000);
+  if (mode === 'after_hours') return { closeAt: afterHours, checkOut: afterHours };
+
+  let scheduledEnd: Date;
+  if (mode === 'shift_end' && schedule.shiftStart && schedule.shiftEnd) {
+    scheduledEnd = getShiftWindow(schedule.date, schedule.shiftStart, schedule.shiftEnd, rules.timeZone).end;
+  } else {
+    scheduledEnd = getWorkEnd(rules, schedule);
+  }
+  if (scheduledEnd.getTime() <= checkIn.getTime()) return { closeAt: afterHours, checkOut: afterHours };
+
+  // A shift longer than the configured hours still runs to its end first
+  const closeAt = afterHours.getTime() > scheduledEnd.getTime() ? afterHours : scheduledEnd;
+  return { closeAt, checkOut: scheduledEnd };
+};
+
+/**
+ * Fills the check-out of an open session that has been forgotten under the
+ * auto check-out policy. Returns null when nothing needs closing.
+ */
+export const applyAutoCheckOut = (
+  previous: AttendanceSession[],
+  now: Date,
+  rules: AttendanceRules,
+  schedule: ShiftSchedule
+): { sessions: AttendanceSession[]; totalHours: number; overtimeMinutes: number } | null => {
+  const open = previous[previous.length - 1];
+  if (!open || open.check_out) return null;
+
+  const autoCheckOut = getAutoCheckOut(open, rules, schedule);
+  if (!autoCheckOut || autoCheckOut.closeAt.getTime() > now.getTime()) return null;
+
+  const sessions = previous.map(session => ({ ...session }));
+  sessions[sessions.length - 1] = { ...open, check_out: autoCheckOut.checkOut.toISOString(), auto_closed: true };
+  return {
+    sessions,
+    totalHours: calculateTotalHours(sessions),
+    overtimeMinutes: calculateOvertimeMinutes(sessions, rules, schedule),
+  };
+};
+
+/** Remaining wait in words for the screen and speech, e.g. "2 minutes 15 seconds". */
+export const formatWaitTime = (remainingMs: number): string => {
+  const totalSeconds = Math.max(1, Math.ceil(remainingMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const parts = [
+    minutes > 0 ? `${minutes} minute${minutes === 1 ? '' : 's'}` : '',
+    seconds > 0 ? `${seconds} second${seconds === 1 ? '' : 's'}` : '',
+  ];
+  return parts.filter(Boolean).join(' ');
+};
+
+export const COOLDOWN_MESSAGE_PREFIX = 'Please wait';
+
+const cooldownOutcome = (action: PunchAction, remainingMs: number): ScanOutcome => ({
+  ok: false,
+  code: 'cooldown',
+  message: `${COOLDOWN_MESSAGE_PREFIX} ${formatWaitTime(remainingMs)} before ${action === 'check-in' ? 'checking in again' : 'checking out'}`,
+  remainingMs,
+});
+
+/**
+ * Applies a new scan to the punches recorded so far and returns the next
+ * state. Never mutates the given sessions.
+ */
+export const applyScan = (
+  previous: AttendanceSession[],
+  timestamp: Date,
+  rules: AttendanceRules = DEFAULT_ATTENDANCE_RULES,
+  schedule?: ShiftSchedule | null
+): ScanOutcome => {
+  const sessions = previous.map(session => ({ ...session }));
+  const time = timestamp.toISOString();
+  const open = sessions[sessions.length - 1];
+
+  if (open && !open.check_out) {
+    const sessionIndex = sessions.length - 1;
+    const elapsed = timestamp.getTime() - new Date(open.check_in).getTime();
+
+    if (elapsed < 0) {
+      return { ok: false, code: 'out_of_order', message: 'Scan time is earlier than the last check-in' };
+    }
+
+    if (elapsed < rules.minCheckOutGapMs) {
+      return cooldownOutcome('check-out', rules.minCheckOutGapMs - elapsed);
+    }
+
+    open.check_out = time;
+    return {
+      ok: true,
+      sessions,
+      punch: { action: 'check-out', sessionIndex, time },
+      totalHours: calculateTotalHours(sessions),
+      overtimeMinutes: calculateOvertimeMinutes(sessions, rules, schedule),
+      lateness: null,
+    };
+  }
+
+  if (sessions.length >= rules.maxSessionsPerDay) {
+    return { ok: false, code: 'day_complete', message: 'All check-ins and check-outs are completed for today' };
+  }
+
+  if (open?.check_out) {
+    const sinceCheckOut = timestamp.getTime() - new Date(open.check_out).getTime();
+    if (sinceCheckOut < 0) {
+      return { ok: false, code: 'out_of_order', message: 'Scan time is earlier than the last check-out' };
+    }
+    if (sinceCheckOut < rules.minCheckInGapMs) {
+      return cooldownOutcome('check-in', rules.minCheckInGapMs - sinceCheckOut);
+    }
+  }
+
+  sessions.push({ check_in: time, check_out: null });
+  return {
+    ok: true,
+    sessions,
+    punch: { action: 'check-in', sessionIndex: sessions.length - 1, time },
+    totalHours: calculateTotalHours(sessions),
+    overtimeMinutes: calculateOvertimeMinutes(sessions, rules, schedule),
+    lateness: sessions.length === 1 ? calculateLateness(timestamp, rules, schedule) : null,
+  };
+};
+
+const isSameMinute = (a: string | null, b: string | null): boolean => {
+  if (!a || !b) return a === b;
+  return Math.floor(new Date(a).getTime() / 60000) === Math.floor(new Date(b).getTime() / 60000);
+};
+
+/**
+ * Sets the punch times of a session edited by hand. Everything else recorded
+ * with the session is kept. A punch still on the same minute keeps its exact
+ * time, device and method, since the editor only shows minutes. A changed
+ * punch was neither taken by that device nor by PIN, and a changed check-out
+ * is no longer the system's.
+ */
+export const correctSessionTimes = (
+  previous: AttendanceSession | undefined,
+  checkIn: string,
+  checkOut: string | null
+): AttendanceSession => {
+  if (!previous) return { check_in: checkIn, check_out: checkOut };
+
+  const session: AttendanceSession = { ...previous };
+  if (isSameMinute(previous.check_in, checkIn)) {
+    session.check_in = previous.check_in;
+  } else {
+    session.check_in = checkIn;
+    delete session.check_in_device;
+    delete session.check_in_method;
+  }
+  if (isSameMinute(previous.check_out, checkOut)) {
+    session.check_out = previous.check_out;
+  } else {
+    session.check_out = checkOut;
+    delete session.check_out_device;
+    delete session.check_out_method;
+    delete session.auto_closed;
+  }
+  return session;
+};
+
+/** Records which scanner device took the given punch. */
+export const tagPunchDevice = (sessions: AttendanceSession[], punch: Punch, deviceId: string): AttendanceSession[] => {
+  const field = punch.action === 'check-in' ? 'check_in_device' : 'check_out_device';
+  return sessions.map((session, index) => (index === punch.sessionIndex ? { ...session, [field]: deviceId } : session));
+};
+
+/** Flags the given punch as entered by PIN rather than a badge scan. */
+export const tagPunchMethod = (sessions: AttendanceSession[], punch: Punch, method: PunchMethod): AttendanceSession[] => {
+  if (method === 'qr') return sessions;
+  const field = punch.action === 'check-in' ? 'check_in_method' : 'check_out_method';
+  return sessions.map((session, index) => (index === punch.sessionIndex ? { ...session, [field]: method } : session));
+};
+
+export const hasPinPunch = (sessions: AttendanceSession[]): boolean =>
+  sessions.some(session => session.check_in_method === 'pin' || session.check_out_method === 'pin');
+
+/** Ids of the scanner devices that recorded any of these punches. */
+export const getPunchDeviceIds = (sessions: AttendanceSession[]): string[] => {
+  const ids = new Set<string>();
+  sessions.forEach(session => {
+    if (session.check_in_device) ids.add(session.check_in_device);
+    if (session.check_out_device) ids.add(session.check_out_device);
+  });
+  return Array.from(ids);
+};
@@ -0,0 +1,86 @@
+// Loads the attendance rules stored in the settings table and the employee's rostered shift
+import { supabase } from './supabase';
+import { AttendanceRules, AutoCheckOutMode, DEFAULT_ATTENDANCE_RULES } from './attendanceEngine';
+import { getOrganisationTimeZone, isValidTimeZone, setOrganisationTimeZone } from '../utils/dateTime';
+
+export const fetchSettingsMap = async (): Promise<{ [key: string]: string }> => {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('key, value');
+
+  if (error) throw error;
+
+  const settingsMap: { [key: string]: string } = {};
+  data?.forEach(setting => {
+    settingsMap[setting.key] = setting.value;
+  });
+  return settingsMap;
+};
+
+const AUTO_CHECK_OUT_MODES: AutoCheckOutMode[] = ['off', 'shift_end', 'work_end', 'after_hours'];
+
+const toNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const parseAttendanceRules = (settingsMap: { [key: string]: string }): AttendanceRules => ({
+  maxSessionsPerDay: Math.max(1, Math.floor(toNumber(settingsMap.max_sessions_per_day, DEFAULT_ATTENDANCE_RULES.maxSessionsPerDay))),
+  minCheckOutGapMs: Math.max(0, toNumber(settingsMap.checkout_cooldown_minutes, DEFAULT_ATTENDANCE_RULES.minCheckOutGapMs / 60000)) * 60000,
+  minCheckInGapMs: Math.max(0, toNumber(settingsMap.checkin_cooldown_minutes, DEFAULT_ATTENDANCE_RULES.minCheckInGapMs / 60000)) * 60000,
+  duplicateScanWindowMs: Math.max(0, toNumber(settingsMap.duplicate_scan_seconds, DEFAULT_ATTENDANCE_RULES.duplicateScanWindowMs / 1000)) * 1000,
+  workStartTime: settingsMap.work_start_time || DEFAULT_ATTENDANCE_RULES.workStartTime,
+  workEndTime: settingsMap.work_end_time || DEFAULT_ATTENDANCE_RULES.workEndTime,
+  defaultBreakMinutes: toNumber(settingsMap.break_duration, DEFAULT_ATTENDANCE_RULES.defaultBreakMinutes),
+  gracePeriodMinutes: toNumber(settingsMap.grace_period, DEFAULT_ATTENDANCE_RULES.gracePeriodMinutes),
+  lateThresholdMinutes: toNumber(settingsMap.late_threshold, DEFAULT_ATTENDANCE_RULES.lateThresholdMinutes),
+  overtimeThresholdMinutes: toNumber(settingsMap.overtime_threshold, DEFAULT_ATTENDANCE_RULES.overtimeThresholdMinutes),
+  autoCheckOut: {
+    mode: AUTO_CHECK_OUT_MODES.includes(settingsMap.auto_checkout_mode as AutoCheckOutMode)
+      ? settingsMap.auto_checkout_mode as AutoCheckOutMode
+      : DEFAULT_ATTENDANCE_RULES.autoCheckOut.mode,
+    hours: Math.max(1, toNumber(settingsMap.auto_checkout_hours, DEFAULT_ATTENDANCE_RULES.autoCheckOut.hours)),
+  },
+  timeZone: settingsMap.organisation_timezone && isValidTimeZone(settingsMap.organisation_timezone)
+    ? settingsMap.organisation_timezone
+    : DEFAULT_ATTENDANCE_RULES.timeZone,
+});
+
+export const fetchAttendanceRules = async (): Promise<AttendanceRules> => {
+  try {
+    const rules = parseAttendanceRules(await fetchSettingsMap());
+    setOrganisationTimeZone(rules.timeZone);
+    return rules;
+  } catch (error) {
+    console.warn('Could not load attendance settings, using defaults:', error);
+    return { ...DEFAULT_ATTENDANCE_RULES, timeZone: getOrganisationTimeZone() };
+  }
+};
+
+let timeZonePromise: Promise<string> | null = null;
+
+/** Loads the organisation timezone once per session; screens await it before computing dates. */
+export const loadOrganisationTimeZone = (): Promise<string> => {
+  if (!timeZonePromise) {
+    timeZonePromise = fetchAttendanceRules().then(rules => rules.timeZone);
+  }
+  return timeZonePromise;
+};
+
+export const fetchRosterShift = async (
+  employeeId: string,
+  date: string
+): Promise<{ shift_start: string; shift_end: string; break_duration: number } | null> => {
+  const { data, error } = await supabase
+    .from('rosters')
+    .select('shift_start, shift_end, break_duration')
+    .eq('employee_id', employeeId)
+    .eq('date', date)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Could not load roster shift:', error);
+    return null;
+  }
+  return data;
+};
@@ -0,0 +1,152 @@
+// Auto Check-Out - closes sessions left open past the configured policy and handles supervisor review
+import { supabase } from './supabase';
+import {
+  AttendanceRules,
+  AttendanceSession,
+  applyAutoCheckOut,
+  getSessions,
+  ShiftSchedule,
+  toRecordColumns,
+} from './attendanceEngine';
+import { fetchAttendanceRules, fetchRosterShift } from './attendanceSettings';
+import { fetchIsHalfDay } from './workCalendar';
+import { addBusinessDays, getBusinessDate } from '../utils/dateTime';
+
+// Records from this many days back are checked, so sessions left open over a
+// weekend with no client running are still closed. Older open records are left
+// for an attendance correction
+const LOOKBACK_DAYS = 7;
+
+export interface AttendanceRow {
+  id: string;
+  employee_id: string;
+  date: string;
+  sessions: AttendanceSession[] | null;
+  first_check_in: string | null;
+  first_check_out: string | null;
+  second_check_in: string | null;
+  second_check_out: string | null;
+}
+
+const toSchedule = async (employeeId: string, date: string): Promise<ShiftSchedule> => {
+  const [shift, halfDay] = await Promise.all([
+    fetchRosterShift(employeeId, date),
+    fetchIsHalfDay(date),
+  ]);
+  return {
+    date,
+    shiftStart: shift?.shift_start || null,
+    shiftEnd: shift?.shift_end || null,
+    breakDuration: shift?.break_duration,
+    halfDay,
+  };
+};
+
+export class AutoCheckOutService {
+  private static instance: AutoCheckOutService;
+  private readonly checkIntervalMs = 5 * 60 * 1000;
+  private timer: number | null = null;
+  private isRunning: boolean = false;
+
+  private constructor() {}
+
+  static getInstance(): AutoCheckOutService {
+    if (!AutoCheckOutService.instance) {
+      AutoCheckOutService.instance = new AutoCheckOutService();
+    }
+    return AutoCheckOutService.instance;
+  }
+
+  start(): void {
+    if (this.timer !== null) return;
+    this.timer = window.setInterval(() => this.run().catch(console.error), this.checkIntervalMs);
+    this.run().catch(console.error);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Closes every overdue open session and returns how many records were changed. */
+  async run(now: Date = new Date()): Promise<number> {
+    if (this.isRunning || !navigator.onLine) return 0;
+
+    this.isRunning = true;
+    try {
+      const rules = await fetchAttendanceRules();
+      if (rules.autoCheckOut.mode === 'off') return 0;
+
+      const today = getBusinessDate(now, rules.timeZone);
+      const { data, error } = await supabase
+        .from('attendance_records')
+        .select('id, employee_id, date, sessions, first_check_in, first_check_out, second_check_in, second_check_out')
+        .gte('date', addBusinessDays(today, -LOOKBACK_DAYS))
+        .lte('date', today);
+
+      if (error) throw error;
+
+      let closed = 0;
+      for (const record of (data || []) as AttendanceRow[]) {
+        const sessions = getSessions(record);
+        const open = sessions[sessions.length - 1];
+        if (!open || open.check_out) continue;
+
+        if (await this.closeRecord(record, sessions, now, rules)) {
+          closed++;
+        }
+      }
+      return closed;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async closeRecord(
+    record: AttendanceRow,
+    sessions: AttendanceSession[],
+    now: Date,
+    rules: AttendanceRules
+  ): Promise<boolean> {
+    const schedule = await toSchedule(record.employee_id, record.date);
+    const result = applyAutoCheckOut(sessions, now, rules, schedule);
+    if (!result) return false;
+
+    // Only written if the sessions are still the ones read, so a scan recorded
+    // meanwhile is never overwritten; the next run looks at the record again
+    const update = supabase
+      .from('attendance_records')
+      .update({
+        ...toRecordColumns(result.sessions),
+        total_hours: result.totalHours,
+        overtime_minutes: result.overtimeMinutes,
+        auto_closed: true,
+        auto_close_reviewed: false,
+      })
+      .eq('id', record.id);
+    const { data, error } = await (record.sessions
+      ? update.eq('sessions', JSON.stringify(record.sessions))
+      : update.is('sessions', null)
+    ).select('id');
+
+    if (error) {
+      console.error('Failed to auto check-out record:', error);
+      return false;
+    }
+    return (data || []).length > 0;
+  }
+
+  /** Supervisor accepts the system check-out times as they are. */
+  async confirm(recordId: string): Promise<void> {
+    const { error } = await supabase
+      .from('attendance_records')
+      .update({ auto_close_reviewed: true })
+      .eq('id', recordId);
+
+    if (error) throw error;
+  }
+}
+
+export const autoCheckOutService = AutoCheckOutService.getInstance();
@@ -0,0 +1,92 @@
+// Badge History - reissuing lost badges and recognising revoked ones at the scanner
+import { supabase } from './supabase';
+import { formatInTimeZone } from '../utils/dateTime';
+
+export const BADGE_REISSUE_REASONS = ['Lost', 'Damaged', 'Stolen', 'Shared with someone else', 'Employee request'];
+
+export interface BadgeHistoryEntry {
+  id: string;
+  employee_id: string;
+  qr_code: string;
+  qr_version: number;
+  reason: string;
+  revoked_at: string;
+}
+
+export interface BadgeHolder {
+  id: string;
+  qr_version: number;
+  qr_code: string;
+  first_name: string;
+  last_name: string;
+}
+
+/**
+ * Revokes the employee's current badge and issues the next version with a
+ * new secret, so the old printed badge, its legacy code and any phone badge
+ * link all stop working. The revoked code is kept with the reason, in the
+ * same transaction, so a revoked badge always has its history entry.
+ */
+export const reissueBadge = async (employee: BadgeHolder, reason: string): Promise<void> => {
+  if (!reason.trim()) throw new Error('A reason is required to reissue a badge');
+
+  // Only reissues from the version on screen, so two admins cannot reissue over each other.
+  // The new secret is created on the server and never leaves it
+  const { error } = await supabase.rpc('reissue_badge', {
+    employee_id: employee.id,
+    from_version: employee.qr_version,
+    reason: reason.trim(),
+  });
+
+  if (error) throw new Error(error.message || 'Failed to reissue badge');
+};
+
+export const fetchBadgeHistory = async (employeeId: string): Promise<BadgeHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('badge_history')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .order('revoked_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/** The revocation of a specific badge version, if it was reissued. */
+export const fetchRevokedVersion = async (employeeId: string, version: number): Promise<BadgeHistoryEntry | null> => {
+  const { data, error } = await supabase
+    .from('badge_history')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .eq('qr_version', version)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/** A revoked static code and whose badge it was. */
+export const findRevokedCode = async (
+  qrCode: string
+): Promise<{ entry: BadgeHistoryEntry; firstName: string; lastName: string } | null> => {
+  const { data, error } = await supabase
+    .from('badge_history')
+    .select('*, employees(first_name, last_name)')
+    .eq('qr_code', qrCode)
+    .order('revoked_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const employee = Array.isArray(data.employees) ? data.employees[0] : data.employees;
+  return { entry: data, firstName: employee?.first_name || '', lastName: employee?.last_name || '' };
+};
+
+export const describeRevokedBadge = (name: string, entry: BadgeHistoryEntry | null): string => {
+  const replaced = entry
+    ? ` Replaced on ${formatInTimeZone(entry.revoked_at, 'dd/MM/yyyy')} (${entry.reason}).`
+    : '';
+  return `Revoked badge - ${name}.${replaced} Please use the current badge`;
+};
@@ -0,0 +1,67 @@
+// Employee PINs - personal PINs that let an employee punch by name when their badge will not scan
+import { supabase } from './supabase';
+import { describeLockout, PinCheckResult } from './pinCheck';
+
+export interface PunchCandidate {
+  id: string;
+  first_name: string;
+  last_name: string;
+  contact_number: string;
+  departments?: {
+    name: string;
+  } | null;
+}
+
+export const EMPLOYEE_PIN_PATTERN = /^\d{4,6}$/;
+
+const MIN_SEARCH_LENGTH = 2;
+const MAX_SEARCH_RESULTS = 5;
+
+/** Stores the PIN as a salted slow hash on the server; any previous PIN stops working. */
+export const setEmployeePin = async (employeeId: string, pin: string): Promise<void> => {
+  if (!EMPLOYEE_PIN_PATTERN.test(pin)) {
+    throw new Error('The PIN must be 4 to 6 digits');
+  }
+
+  const { error } = await supabase.rpc('set_employee_pin', { employee_id: employeeId, new_pin: pin });
+  if (error) throw new Error('Failed to save the PIN');
+};
+
+/** Active employees whose name or contact number matches every word of the query. */
+export const searchEmployeesForPunch = async (query: string): Promise<PunchCandidate[]> => {
+  // Characters that would break the PostgREST filter are dropped
+  const terms = query.replace(/[,()%*\\]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  if (terms.join('').length < MIN_SEARCH_LENGTH) return [];
+
+  let request = supabase
+    .from('employees')
+    .select('id, first_name, last_name, contact_number, departments(name)')
+    .eq('is_active', true);
+
+  terms.forEach(term => {
+    request = request.or(`first_name.ilike.%${term}%,last_name.ilike.%${term}%,contact_number.ilike.%${term}%`);
+  });
+
+  const { data, error } = await request.order('first_name').limit(MAX_SEARCH_RESULTS);
+  if (error) throw new Error('Failed to search employees');
+  return (data || []) as unknown as PunchCandidate[];
+};
+
+/**
+ * Checks the employee's PIN on the server, which counts wrong PINs for the
+ * employee across every device. Throws when no PIN has been set, the PIN is
+ * wrong, or too many wrong PINs were entered.
+ */
+export const verifyEmployeePin = async (employeeId: string, pin: string): Promise<void> => {
+  const { data, error } = await supabase.rpc('verify_employee_pin', { employee_id: employeeId, pin });
+  if (error) throw new Error('Failed to check the PIN');
+
+  const result = data as PinCheckResult;
+  if (result.status === 'not_set') {
+    throw new Error('No PIN has been set for this employee. Please ask a supervisor');
+  }
+  if (result.status === 'locked') {
+    throw new Error(`${describeLockout(result.retry_after || 0)} or ask a supervisor`);
+  }
+  if (result.status !== 'ok') throw new Error('Incorrect PIN');
+};
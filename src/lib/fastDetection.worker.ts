@@ -0,0 +1,124 @@
+// Fast Detection Worker - cleans up a downscaled scanner frame and decodes it off the main thread
+import type { FrameRequest, FrameResponse } from './fastDetection';
+
+interface DetectedCode {
+  rawValue: string;
+  cornerPoints: Array<{ x: number; y: number }>;
+}
+
+interface Detector {
+  detect(image: ImageData): Promise<DetectedCode[]>;
+}
+
+type DetectorConstructor = {
+  new (options: { formats: string[] }): Detector;
+  getSupportedFormats(): Promise<string[]>;
+};
+
+// Chrome on Android exposes BarcodeDetector to workers; elsewhere the main thread decodes with qr-scanner
+const detectorPromise: Promise<Detector | null> = (async () => {
+  const BarcodeDetector = (self as unknown as { BarcodeDetector?: DetectorConstructor }).BarcodeDetector;
+  if (!BarcodeDetector) return null;
+  try {
+    const formats = await BarcodeDetector.getSupportedFormats();
+    return formats.includes('qr_code') ? new BarcodeDetector({ formats: ['qr_code'] }) : null;
+  } catch {
+    return null;
+  }
+})();
+
+/** Luminance of each pixel, the only channel a QR decoder looks at. */
+const toGrayscale = (image: ImageData): Uint8ClampedArray => {
+  const gray = new Uint8ClampedArray(image.width * image.height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = (image.data[p] * 77 + image.data[p + 1] * 150 + image.data[p + 2] * 29) >> 8;
+  }
+  return gray;
+};
+
+/** Median of each pixel and its four neighbours, removing sensor noise without blurring module edges. */
+const reduceNoise = (gray: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const output = new Uint8ClampedArray(gray);
+  const neighbours = new Uint8Array(5);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      neighbours[0] = gray[i];
+      neighbours[1] = gray[i - width];
+      neighbours[2] = gray[i + width];
+      neighbours[3] = gray[i - 1];
+      neighbours[4] = gray[i + 1];
+      neighbours.sort();
+      output[i] = neighbours[2];
+    }
+  }
+  return output;
+};
+
+/** Stretches the darkest and brightest 1% to black and white, so dim or washed-out badges keep their contrast. */
+const stretchContrast = (gray: Uint8ClampedArray): void => {
+  const histogram = new Uint32Array(256);
+  gray.forEach(value => histogram[value]++);
+
+  const clip = Math.floor(gray.length * 0.01);
+  let low = 0;
+  for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low];
+  let high = 255;
+  for (let count = 0; high > 0 && count + histogram[high] <= clip; high--) count += histogram[high];
+  if (high <= low) return;
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (gray[i] - low) * scale;
+  }
+};
+
+const preprocess = (frame: ImageBitmap): ImageData => {
+  const canvas = new OffscreenCanvas(frame.width, frame.height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Could not get canvas context');
+  context.drawImage(frame, 0, 0);
+
+  const image = context.getImageData(0, 0, frame.width, frame.height);
+  const gray = reduceNoise(toGrayscale(image), image.width, image.height);
+  stretchContrast(gray);
+
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    image.data[p] = image.data[p + 1] = image.data[p + 2] = gray[i];
+  }
+  return image;
+};
+
+self.onmessage = async (event: MessageEvent<FrameRequest>) => {
+  const { id, frame } = event.data;
+
+  try {
+    const started = performance.now();
+    const image = preprocess(frame);
+    const preprocessMs = performance.now() - started;
+
+    const detector = await detectorPromise;
+    if (!detector) {
+      const response: FrameResponse = { id, data: null, cornerPoints: [], preprocessMs, decodeMs: 0, image };
+      self.postMessage(response, { transfer: [image.data.buffer] });
+      return;
+    }
+
+    const decodeStarted = performance.now();
+    const [code] = await detector.detect(image);
+    const response: FrameResponse = {
+      id,
+      data: code?.rawValue || null,
+      cornerPoints: code?.cornerPoints || [],
+      preprocessMs,
+      decodeMs: performance.now() - decodeStarted,
+    };
+    self.postMessage(response);
+  } catch (error) {
+    const response: FrameResponse = { id, data: null, cornerPoints: [], preprocessMs: 0, decodeMs: 0, error: (error as Error).message };
+    self.postMessage(response);
+  } finally {
+    frame.close();
+  }
+};
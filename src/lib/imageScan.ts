@@ -0,0 +1,24 @@
+// Image Scan - reads badges from uploaded, pasted or batch photos when the camera cannot be used
+import QrScanner from 'qr-scanner';
+
+export interface ImageScanResult {
+  fileName: string;
+  status: 'recorded' | 'queued' | 'rejected' | 'no_code';
+  message: string;
+}
+
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/');
+
+/** The QR code in the image, or null when none could be found. */
+export const decodeImage = async (image: Blob): Promise<string | null> => {
+  try {
+    const result = await QrScanner.scanImage(image, {
+      returnDetailedScanResult: true,
+      alsoTryWithoutScanRegion: true,
+    });
+    return result.data || null;
+  } catch {
+    // scanImage rejects when the image holds no readable code
+    return null;
+  }
+};
@@ -0,0 +1,77 @@
+// Keyboard Wedge - reads badges from USB/Bluetooth handheld scanners that type the code followed by Enter
+import { BadgeSymbology } from './scannerDevices';
+
+// Handheld scanners type a character every few milliseconds; people take well over this between keys
+const MAX_KEY_GAP_MS = 50;
+// Shorter bursts are fast human typing, not a badge
+const MIN_CODE_LENGTH = 4;
+
+export const SYMBOLOGY_LABELS: Record<BadgeSymbology, string> = {
+  any: 'QR and Code128',
+  qr: 'QR only',
+  code128: 'Code128 only',
+};
+
+// AIM symbology identifiers a scanner can be set to prefix: ]Q<n> for QR, ]C<n> for Code128
+const AIM_SYMBOLOGIES: Record<string, BadgeSymbology> = {
+  Q: 'qr',
+  C: 'code128',
+};
+
+const isTextField = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Calls `onCode` with each code a handheld scanner types. Keystrokes are only
+ * collected while they arrive faster than a person types, so ordinary typing
+ * is ignored, as is anything typed into a form field. Returns the cleanup.
+ */
+export const listenForWedgeScans = (onCode: (raw: string) => void): (() => void) => {
+  let buffer = '';
+  let lastKeyAt = 0;
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (isTextField(event.target) || event.ctrlKey || event.altKey || event.metaKey) return;
+
+    const now = Date.now();
+    const inBurst = now - lastKeyAt <= MAX_KEY_GAP_MS;
+
+    if (event.key === 'Enter') {
+      if (inBurst && buffer.length >= MIN_CODE_LENGTH) {
+        // Keep the Enter from also pressing whatever button has focus
+        event.preventDefault();
+        onCode(buffer);
+      }
+      buffer = '';
+      lastKeyAt = 0;
+      return;
+    }
+
+    // Shift and other non-printing keys arrive between characters and are skipped
+    if (event.key.length !== 1) return;
+
+    buffer = inBurst ? buffer + event.key : event.key;
+    lastKeyAt = now;
+  };
+
+  window.addEventListener('keydown', handleKeyDown);
+  return () => window.removeEventListener('keydown', handleKeyDown);
+};
+
+/**
+ * Strips the AIM identifier, if the scanner sends one, and refuses badges of a
+ * symbology this device does not accept. Codes without an identifier are taken
+ * as they are.
+ */
+export const decodeWedgeScan = (raw: string, symbology: BadgeSymbology): string => {
+  const aim = raw.match(/^\]([A-Za-z])[0-9A-Za-z]/);
+  if (!aim) return raw.trim();
+
+  const scanned = AIM_SYMBOLOGIES[aim[1]];
+  if (symbology !== 'any' && scanned !== symbology) {
+    throw new Error(`This scanner only accepts ${symbology === 'qr' ? 'QR' : 'Code128'} badges`);
+  }
+  return raw.slice(aim[0].length).trim();
+};
@@ -0,0 +1,133 @@
+// Kiosk Mode - locks an unattended gate tablet to the scanner until an admin PIN is entered
+import { supabase } from './supabase';
+import { fetchSettingsMap } from './attendanceSettings';
+import { describeLockout, PinCheckResult } from './pinCheck';
+
+// Survives reloads, so refreshing the tablet does not drop back to the admin screens
+const KIOSK_STORAGE_KEY = 'attendance-kiosk-mode';
+// Salted slow hash of the PIN entered when the tablet was locked, so it can still be unlocked offline
+const KIOSK_PIN_STORAGE_KEY = 'attendance-kiosk-pin';
+// Wrong PINs entered while offline; kept across reloads so restarting the tablet does not reset them
+const KIOSK_ATTEMPTS_STORAGE_KEY = 'attendance-kiosk-attempts';
+
+export const KIOSK_PIN_PATTERN = /^\d{4,8}$/;
+
+const PBKDF2_ITERATIONS = 310000;
+const MAX_OFFLINE_ATTEMPTS = 5;
+const OFFLINE_LOCKOUT_MS = 5 * 60 * 1000;
+
+interface OfflinePin {
+  salt: string;
+  hash: string;
+}
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array => new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+
+const deriveOfflineHash = async (pin: string, salt: Uint8Array): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+/** Stores the admin PIN on the server as a bcrypt hash; clients never see it. */
+export const saveKioskPin = async (pin: string): Promise<void> => {
+  if (!KIOSK_PIN_PATTERN.test(pin)) {
+    throw new Error('Kiosk admin PIN must be 4 to 8 digits');
+  }
+
+  const { error } = await supabase.rpc('set_kiosk_pin', { new_pin: pin });
+  if (error) throw new Error('Failed to save the kiosk admin PIN');
+};
+
+export const isKioskModeActive = (): boolean => {
+  return localStorage.getItem(KIOSK_STORAGE_KEY) === 'true';
+};
+
+export const requestKioskFullscreen = (): void => {
+  if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+  // Browsers only allow this from a tap or click, so a refused request is retried on the next one
+  document.documentElement.requestFullscreen().catch(() => undefined);
+};
+
+const checkPinOnline = async (pin: string): Promise<PinCheckResult | null> => {
+  const { data, error } = await supabase.rpc('verify_kiosk_pin', { pin });
+  if (error) {
+    console.warn('Could not check the kiosk PIN online:', error);
+    return null;
+  }
+  return data as PinCheckResult;
+};
+
+const throwUnlessAccepted = (result: PinCheckResult): void => {
+  if (result.status === 'not_set') throw new Error('Set a kiosk admin PIN in Settings first');
+  if (result.status === 'locked') throw new Error(describeLockout(result.retry_after || 0));
+  if (result.status !== 'ok') throw new Error('Incorrect PIN');
+};
+
+/**
+ * Locks the tablet once the admin PIN checks out on the server, so there is
+ * always a way out. A salted copy is kept on the tablet for offline unlocks.
+ */
+export const enterKioskMode = async (pin: string): Promise<void> => {
+  const settingsMap = await fetchSettingsMap();
+  if (settingsMap.kiosk_pin_set !== 'true') {
+    throw new Error('Set a kiosk admin PIN in Settings before starting kiosk mode');
+  }
+
+  const result = await checkPinOnline(pin.trim());
+  if (!result) throw new Error('Could not check the PIN. Kiosk mode needs a connection to start');
+  throwUnlessAccepted(result);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const offlinePin: OfflinePin = { salt: toHex(salt), hash: await deriveOfflineHash(pin.trim(), salt) };
+  localStorage.setItem(KIOSK_PIN_STORAGE_KEY, JSON.stringify(offlinePin));
+  localStorage.removeItem(KIOSK_ATTEMPTS_STORAGE_KEY);
+  localStorage.setItem(KIOSK_STORAGE_KEY, 'true');
+};
+
+const verifyOffline = async (pin: string): Promise<void> => {
+  const stored = localStorage.getItem(KIOSK_PIN_STORAGE_KEY);
+  if (!stored) throw new Error('Could not check the PIN. Connect the tablet and try again');
+
+  const attempts = JSON.parse(localStorage.getItem(KIOSK_ATTEMPTS_STORAGE_KEY) || '{"count":0,"lockedUntil":0}');
+  if (attempts.lockedUntil > Date.now()) {
+    throw new Error(describeLockout((attempts.lockedUntil - Date.now()) / 1000));
+  }
+
+  const offlinePin: OfflinePin = JSON.parse(stored);
+  if (offlinePin.hash !== await deriveOfflineHash(pin, fromHex(offlinePin.salt))) {
+    // The count starts over once a lockout is imposed
+    const count = attempts.count + 1;
+    localStorage.setItem(KIOSK_ATTEMPTS_STORAGE_KEY, JSON.stringify({
+      count: count >= MAX_OFFLINE_ATTEMPTS ? 0 : count,
+      lockedUntil: count >= MAX_OFFLINE_ATTEMPTS ? Date.now() + OFFLINE_LOCKOUT_MS : 0,
+    }));
+    throw new Error('Incorrect PIN');
+  }
+  localStorage.removeItem(KIOSK_ATTEMPTS_STORAGE_KEY);
+};
+
+/**
+ * Checks the admin PIN on the server, which counts wrong PINs and locks them
+ * out. Only when the server cannot be reached is the copy on the tablet used.
+ */
+export const verifyKioskPin = async (pin: string): Promise<void> => {
+  const result = await checkPinOnline(pin.trim());
+  if (!result) return verifyOffline(pin.trim());
+  throwUnlessAccepted(result);
+};
+
+export const exitKioskMode = (): void => {
+  localStorage.removeItem(KIOSK_STORAGE_KEY);
+  localStorage.removeItem(KIOSK_PIN_STORAGE_KEY);
+  localStorage.removeItem(KIOSK_ATTEMPTS_STORAGE_KEY);
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch(() => undefined);
+  }
+};
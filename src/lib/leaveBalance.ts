@@ -0,0 +1,206 @@
+// Leave Balance - yearly entitlements, accrual and carry-forward per employee and leave type
+import { supabase } from './supabase';
+import { countLeaveDays, LeaveType } from './leaveService';
+import { fetchWorkCalendar, WorkCalendar } from './workCalendar';
+import { getBusinessDate } from '../utils/dateTime';
+
+export type AccrualMethod = 'annual' | 'monthly';
+
+// No-pay leave is unpaid and unlimited, so it has no entitlement
+export type EntitledLeaveType = Exclude<LeaveType, 'no_pay'>;
+
+export const ENTITLED_LEAVE_TYPES: EntitledLeaveType[] = ['annual', 'casual', 'sick'];
+
+export interface LeaveEntitlement {
+  employee_id: string;
+  year: number;
+  leave_type: EntitledLeaveType;
+  days: number;
+  accrual: AccrualMethod;
+  carry_forward_cap: number;
+}
+
+export interface LeaveBalance {
+  leaveType: EntitledLeaveType;
+  entitled: number;
+  accrued: number;
+  carriedForward: number;
+  used: number;
+  balance: number;
+}
+
+// Applied when an employee has no entitlement row for the year
+export const DEFAULT_ENTITLEMENTS: Record<EntitledLeaveType, Pick<LeaveEntitlement, 'days' | 'accrual' | 'carry_forward_cap'>> = {
+  annual: { days: 14, accrual: 'annual', carry_forward_cap: 5 },
+  casual: { days: 7, accrual: 'annual', carry_forward_cap: 0 },
+  sick: { days: 7, accrual: 'annual', carry_forward_cap: 0 },
+};
+
+const roundToHalf = (value: number): number => Math.round(value * 2) / 2;
+
+const findEntitlement = (
+  entitlements: LeaveEntitlement[],
+  employeeId: string,
+  year: number,
+  leaveType: EntitledLeaveType
+): LeaveEntitlement | null => {
+  return entitlements.find(item =>
+    item.employee_id === employeeId && item.year === year && item.leave_type === leaveType
+  ) || null;
+};
+
+const getEntitlement = (
+  entitlements: LeaveEntitlement[],
+  employeeId: string,
+  year: number,
+  leaveType: EntitledLeaveType
+): LeaveEntitlement => {
+  return findEntitlement(entitlements, employeeId, year, leaveType)
+    || { employee_id: employeeId, year, leave_type: leaveType, ...DEFAULT_ENTITLEMENTS[leaveType] };
+};
+
+/**
+ * Last year's entitlement, for carry-forward. The defaults only apply to
+ * employees who were already employed last year, so new hires and fresh
+ * installs carry nothing forward.
+ */
+const getPreviousEntitlement = (
+  entitlements: LeaveEntitlement[],
+  employeeId: string,
+  year: number,
+  leaveType: EntitledLeaveType,
+  joinedOn: string | null
+): LeaveEntitlement | null => {
+  const previous = findEntitlement(entitlements, employeeId, year - 1, leaveType);
+  if (previous) return previous;
+  return joinedOn && joinedOn < `${year}-01-01` ? getEntitlement(entitlements, employeeId, year - 1, leaveType) : null;
+};
+
+/**
+ * Balance for one leave type as of a date. Monthly accrual earns 1/12 of the
+ * yearly days for each month started; unused days from the previous year's
+ * entitlement carry forward up to the current year's cap.
+ */
+export const calculateLeaveBalance = (
+  entitlement: LeaveEntitlement,
+  previousEntitlement: LeaveEntitlement | null,
+  used: number,
+  usedLastYear: number,
+  asOf: string
+): LeaveBalance => {
+  const [asOfYear, asOfMonth] = asOf.split('-').map(Number);
+  let accrued = entitlement.days;
+  if (entitlement.accrual === 'monthly') {
+    const months = asOfYear > entitlement.year ? 12 : asOfYear < entitlement.year ? 0 : asOfMonth;
+    accrued = roundToHalf(entitlement.days * months / 12);
+  }
+
+  const carriedForward = previousEntitlement
+    ? Math.min(entitlement.carry_forward_cap, Math.max(0, previousEntitlement.days - usedLastYear))
+    : 0;
+
+  return {
+    leaveType: entitlement.leave_type,
+    entitled: entitlement.days,
+    accrued,
+    carriedForward,
+    used,
+    balance: accrued + carriedForward - used,
+  };
+};
+
+/** Approved leave working days of a type taken inside a calendar year. */
+const sumUsedDays = (
+  leave: Array<{ employee_id: string; leave_type: string; start_date: string; end_date: string }>,
+  employeeId: string,
+  leaveType: EntitledLeaveType,
+  year: number,
+  calendar: WorkCalendar
+): number => {
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+
+  return leave
+    .filter(item => item.employee_id === employeeId && item.leave_type === leaveType)
+    .reduce((total, item) => {
+      const from = item.start_date > yearStart ? item.start_date : yearStart;
+      const to = item.end_date < yearEnd ? item.end_date : yearEnd;
+      return from <= to ? total + countLeaveDays(from, to, calendar) : total;
+    }, 0);
+};
+
+export const fetchEntitlements = async (employeeId: string, year: number): Promise<LeaveEntitlement[]> => {
+  const { data, error } = await supabase
+    .from('leave_entitlements')
+    .select('employee_id, year, leave_type, days, accrual, carry_forward_cap')
+    .eq('employee_id', employeeId)
+    .eq('year', year);
+
+  if (error) throw error;
+  return ENTITLED_LEAVE_TYPES.map(type => getEntitlement(data || [], employeeId, year, type));
+};
+
+export const saveEntitlements = async (entitlements: LeaveEntitlement[]): Promise<void> => {
+  for (const entitlement of entitlements) {
+    if (entitlement.days < 0 || entitlement.carry_forward_cap < 0) {
+      throw new Error('Entitlement days and carry-forward caps cannot be negative');
+    }
+  }
+
+  const { error } = await supabase
+    .from('leave_entitlements')
+    .upsert(entitlements, { onConflict: 'employee_id,year,leave_type' });
+
+  if (error) throw error;
+};
+
+/** Balances for every given employee, keyed by employee id. */
+export const fetchLeaveBalances = async (
+  employeeIds: string[],
+  year: number,
+  asOf: string
+): Promise<Map<string, LeaveBalance[]>> => {
+  const balances = new Map<string, LeaveBalance[]>();
+  if (employeeIds.length === 0) return balances;
+
+  const [entitlementResult, leaveResult, employeeResult, calendar] = await Promise.all([
+    supabase
+      .from('leave_entitlements')
+      .select('employee_id, year, leave_type, days, accrual, carry_forward_cap')
+      .in('year', [year - 1, year]),
+    supabase
+      .from('leave_requests')
+      .select('employee_id, leave_type, start_date, end_date')
+      .eq('status', 'approved')
+      .in('leave_type', ENTITLED_LEAVE_TYPES)
+      .lte('start_date', `${year}-12-31`)
+      .gte('end_date', `${year - 1}-01-01`),
+    supabase
+      .from('employees')
+      .select('id, created_at')
+      .in('id', employeeIds),
+    fetchWorkCalendar(`${year - 1}-01-01`, `${year}-12-31`),
+  ]);
+
+  if (entitlementResult.error) throw entitlementResult.error;
+  if (leaveResult.error) throw leaveResult.error;
+  if (employeeResult.error) throw employeeResult.error;
+
+  const entitlements = entitlementResult.data || [];
+  const leave = leaveResult.data || [];
+  const joinedOn = new Map((employeeResult.data || []).map(employee => [
+    employee.id,
+    employee.created_at ? getBusinessDate(new Date(employee.created_at)) : null,
+  ]));
+
+  employeeIds.forEach(employeeId => {
+    balances.set(employeeId, ENTITLED_LEAVE_TYPES.map(type => calculateLeaveBalance(
+      getEntitlement(entitlements, employeeId, year, type),
+      getPreviousEntitlement(entitlements, employeeId, year, type, joinedOn.get(employeeId) || null),
+      sumUsedDays(leave, employeeId, type, year, calendar),
+      sumUsedDays(leave, employeeId, type, year - 1, calendar),
+      asOf
+    )));
+  });
+  return balances;
+};
@@ -0,0 +1,153 @@
+// Leave Service - leave requests, supervisor decisions and the approved-leave calendar
+import { supabase } from './supabase';
+import { getCalendarDay, WorkCalendar } from './workCalendar';
+import { addBusinessDays } from '../utils/dateTime';
+
+export type LeaveType = 'annual' | 'casual' | 'sick' | 'no_pay';
+export type LeaveStatus = 'pending' | 'approved' | 'rejected';
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  annual: 'Annual',
+  casual: 'Casual',
+  sick: 'Sick',
+  no_pay: 'No-Pay',
+};
+
+export interface LeaveRequest {
+  id: string;
+  employee_id: string;
+  leave_type: LeaveType;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  status: LeaveStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  employees?: {
+    first_name: string;
+    last_name: string;
+  };
+}
+
+export interface LeaveSubmission {
+  employeeId: string;
+  leaveType: LeaveType;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+/**
+ * Working days a request takes from the balance, inclusive of both ends.
+ * Weekly days off and holidays are not counted; a half working day counts as half.
+ */
+export const countLeaveDays = (startDate: string, endDate: string, calendar: WorkCalendar): number => {
+  let days = 0;
+  for (let date = startDate; date <= endDate; date = addBusinessDays(date, 1)) {
+    const { type } = getCalendarDay(calendar, date);
+    if (type === 'full') days++;
+    if (type === 'half') days += 0.5;
+  }
+  return days;
+};
+
+export const fetchLeaveRequests = async (status?: LeaveStatus): Promise<LeaveRequest[]> => {
+  let query = supabase
+    .from('leave_requests')
+    .select(`
+      *,
+      employees(first_name, last_name)
+    `)
+    .order('start_date', { ascending: false });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export const submitLeaveRequest = async (submission: LeaveSubmission): Promise<void> => {
+  if (!submission.employeeId) throw new Error('Select an employee');
+  if (!submission.startDate || !submission.endDate) throw new Error('Select the leave dates');
+  if (submission.endDate < submission.startDate) throw new Error('End date must be on or after the start date');
+  if (!submission.reason.trim()) throw new Error('A reason is required');
+
+  // Reject requests overlapping leave that is still pending or already approved
+  const { data: overlapping, error: overlapError } = await supabase
+    .from('leave_requests')
+    .select('id')
+    .eq('employee_id', submission.employeeId)
+    .in('status', ['pending', 'approved'])
+    .lte('start_date', submission.endDate)
+    .gte('end_date', submission.startDate)
+    .limit(1);
+
+  if (overlapError) throw overlapError;
+  if (overlapping && overlapping.length > 0) {
+    throw new Error('This employee already has leave requested for some of these dates');
+  }
+
+  const { error } = await supabase
+    .from('leave_requests')
+    .insert({
+      employee_id: submission.employeeId,
+      leave_type: submission.leaveType,
+      start_date: submission.startDate,
+      end_date: submission.endDate,
+      reason: submission.reason.trim(),
+      status: 'pending',
+    });
+
+  if (error) throw error;
+};
+
+export const reviewLeaveRequest = async (
+  id: string,
+  status: Exclude<LeaveStatus, 'pending'>,
+  reviewedBy: string,
+  note?: string
+): Promise<void> => {
+  if (!reviewedBy.trim()) throw new Error('Enter who is reviewing the request');
+
+  const { error } = await supabase
+    .from('leave_requests')
+    .update({
+      status,
+      reviewed_by: reviewedBy.trim(),
+      reviewed_at: new Date().toISOString(),
+      review_note: note?.trim() || null,
+    })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Approved leave overlapping the range, expanded to one entry per employee
+ * and day. Keys are `${employee_id}_${date}`.
+ */
+export const fetchApprovedLeave = async (start: string, end: string): Promise<Map<string, LeaveType>> => {
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .select('employee_id, leave_type, start_date, end_date')
+    .eq('status', 'approved')
+    .lte('start_date', end)
+    .gte('end_date', start);
+
+  if (error) throw error;
+
+  const leaveDays = new Map<string, LeaveType>();
+  (data || []).forEach(leave => {
+    const from = leave.start_date > start ? leave.start_date : start;
+    const to = leave.end_date < end ? leave.end_date : end;
+    for (let date = from; date <= to; date = addBusinessDays(date, 1)) {
+      leaveDays.set(`${leave.employee_id}_${date}`, leave.leave_type || 'annual');
+    }
+  });
+  return leaveDays;
+};
@@ -1,10 +1,43 @@
 // Low-Light Camera Optimization and Enhancement
+// Image Capture additions to the track capabilities; browsers only report the ones the camera supports
+interface CameraCapabilities extends MediaTrackCapabilities {
+  exposureMode?: string[];
+  exposureCompensation?: MediaSettingsRange;
+  brightness?: MediaSettingsRange;
+  iso?: MediaSettingsRange;
+  focusMode?: string[];
+  whiteBalanceMode?: string[];
+  colorTemperature?: MediaSettingsRange;
+  torch?: boolean;
+}
+
+interface MediaSettingsRange {
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+// Sampling a thumbnail is enough for an average and keeps the canvas read cheap
+const LIGHT_SAMPLE_WIDTH = 64;
+const LIGHT_SAMPLE_HEIGHT = 48;
+// The torch only turns off once the light, without the torch's own contribution, is this far above the threshold
+const TORCH_HYSTERESIS = 25;
+// Consecutive samples needed before switching, so a passing shadow does not toggle the torch
+const TORCH_ON_SAMPLES = 2;
+const TORCH_OFF_SAMPLES = 3;
+
 export class LowLightOptimizer {
   private static instance: LowLightOptimizer;
-  private currentStream: MediaStream | null = null;
   private videoTrack: MediaStreamTrack | null = null;
   private lightLevel: number = 0;
   private flashEnabled: boolean = false;
+  private lowLightApplied: boolean = false;
+  private sampleContext: CanvasRenderingContext2D | null = null;
+  // Light level (0-255) below which the torch is turned on automatically; 0 is off
+  private autoTorchThreshold: number = 0;
+  private autoTorchSamples: number = 0;
+  private levelBeforeTorch: number | null = null;
+  private torchGain: number = 0;
 
   private constructor() {}
 
@@ -15,15 +48,22 @@ export class LowLightOptimizer {
     return LowLightOptimizer.instance;
   }
 
+  private getCapabilities(): CameraCapabilities {
+    // Not every browser implements getCapabilities
+    return this.videoTrack?.getCapabilities ? this.videoTrack.getCapabilities() as CameraCapabilities : {};
+  }
+
+  /**
+   * Raises exposure, brightness and sensitivity where the camera supports
+   * them, and brightens the preview. Applied once per stream.
+   */
   async optimizeForLowLight(videoElement: HTMLVideoElement): Promise<void> {
-    if (!this.currentStream) return;
+    if (!this.videoTrack || this.lowLightApplied) return;
+    this.lowLightApplied = true;
 
     try {
-      this.videoTrack = this.currentStream.getVideoTracks()[0];
-      if (!this.videoTrack) return;
-
-      const capabilities = this.videoTrack.getCapabilities();
-      const settings: any = {};
+      const capabilities = this.getCapabilities();
+      const settings: Record<string, string | number> = {};
 
       // Auto-exposure optimization
       if (capabilities.exposureMode) {
@@ -38,6 +78,10 @@ export class LowLightOptimizer {
         }
       }
 
+      if (capabilities.brightness?.max !== undefined) {
+        settings.brightness = capabilities.brightness.max;
+      }
+
       // ISO/Sensitivity optimization
       if (capabilities.iso) {
         settings.iso = capabilities.iso.max || 800; // Higher ISO for low light
@@ -62,7 +106,7 @@ export class LowLightOptimizer {
 
       // Apply optimizations
       if (Object.keys(settings).length > 0) {
-        await this.videoTrack.applyConstraints({ advanced: [settings] });
+        await this.videoTrack.applyConstraints({ advanced: [settings as MediaTrackConstraintSet] });
       }
 
       // Apply CSS filters for additional enhancement
@@ -86,14 +130,17 @@ export class LowLightOptimizer {
     videoElement.style.imageRendering = 'optimizeQuality';
   }
 
+  hasFlash(): boolean {
+    return Boolean(this.getCapabilities().torch);
+  }
+
   async enableFlash(): Promise<boolean> {
     if (!this.videoTrack) return false;
 
     try {
-      const capabilities = this.videoTrack.getCapabilities();
-      if (capabilities.torch) {
+      if (this.hasFlash()) {
         await this.videoTrack.applyConstraints({
-          advanced: [{ torch: true }]
+          advanced: [{ torch: true } as MediaTrackConstraintSet]
         });
         this.flashEnabled = true;
         return true;
@@ -109,7 +156,7 @@ export class LowLightOptimizer {
 
     try {
       await this.videoTrack.applyConstraints({
-        advanced: [{ torch: false }]
+        advanced: [{ torch: false } as MediaTrackConstraintSet]
       });
       this.flashEnabled = false;
     } catch (error) {
@@ -117,41 +164,77 @@ export class LowLightOptimizer {
     }
   }
 
+  isFlashEnabled(): boolean {
+    return this.flashEnabled;
+  }
+
+  /** Average perceived brightness of the current frame, 0-255, from a small thumbnail. */
   async detectLightLevel(videoElement: HTMLVideoElement): Promise<number> {
-    return new Promise((resolve) => {
+    if (!videoElement.videoWidth) return this.lightLevel;
+
+    if (!this.sampleContext) {
       const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        resolve(50); // Default medium light level
-        return;
-      }
+      canvas.width = LIGHT_SAMPLE_WIDTH;
+      canvas.height = LIGHT_SAMPLE_HEIGHT;
+      this.sampleContext = canvas.getContext('2d', { willReadFrequently: true });
+    }
+    if (!this.sampleContext) return this.lightLevel;
 
-      canvas.width = 100;
-      canvas.height = 100;
-
-      try {
-        ctx.drawImage(videoElement, 0, 0, 100, 100);
-        const imageData = ctx.getImageData(0, 0, 100, 100);
-        const data = imageData.data;
-
-        let totalBrightness = 0;
-        for (let i = 0; i < data.length; i += 4) {
-          const r = data[i];
-          const g = data[i + 1];
-          const b = data[i + 2];
-          // Calculate perceived brightness
-          const brightness = (r * 0.299 + g * 0.587 + b * 0.114);
-          totalBrightness += brightness;
-        }
+    try {
+      this.sampleContext.drawImage(videoElement, 0, 0, LIGHT_SAMPLE_WIDTH, LIGHT_SAMPLE_HEIGHT);
+      const data = this.sampleContext.getImageData(0, 0, LIGHT_SAMPLE_WIDTH, LIGHT_SAMPLE_HEIGHT).data;
 
-        const avgBrightness = totalBrightness / (data.length / 4);
-        this.lightLevel = avgBrightness;
-        resolve(avgBrightness);
-      } catch (error) {
-        console.warn('Could not detect light level:', error);
-        resolve(50);
+      let totalBrightness = 0;
+      for (let i = 0; i < data.length; i += 4) {
+        // Calculate perceived brightness
+        totalBrightness += data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
       }
-    });
+
+      this.lightLevel = totalBrightness / (data.length / 4);
+    } catch (error) {
+      console.warn('Could not detect light level:', error);
+    }
+    return this.lightLevel;
+  }
+
+  /** Light level (0-255) below which `updateAutoTorch` turns the torch on; 0 turns automatic control off. */
+  setAutoTorchThreshold(threshold: number): void {
+    this.autoTorchThreshold = Math.max(0, threshold);
+    this.autoTorchSamples = 0;
+  }
+
+  /**
+   * Turns the torch on after a few dark samples and off again once the light
+   * recovers past the hysteresis band. The torch brightens the frame it is
+   * judged by, so its own contribution, measured on the first sample after it
+   * came on, is taken off before deciding to turn it off. Returns whether the
+   * torch changed.
+   */
+  async updateAutoTorch(level: number): Promise<boolean> {
+    if (this.autoTorchThreshold <= 0 || !this.hasFlash()) return false;
+
+    if (!this.flashEnabled) {
+      this.autoTorchSamples = level < this.autoTorchThreshold ? this.autoTorchSamples + 1 : 0;
+      if (this.autoTorchSamples < TORCH_ON_SAMPLES) return false;
+
+      this.autoTorchSamples = 0;
+      this.levelBeforeTorch = level;
+      return this.enableFlash();
+    }
+
+    if (this.levelBeforeTorch !== null) {
+      this.torchGain = Math.max(0, level - this.levelBeforeTorch);
+      this.levelBeforeTorch = null;
+      return false;
+    }
+
+    const ambient = level - this.torchGain;
+    this.autoTorchSamples = ambient > this.autoTorchThreshold + TORCH_HYSTERESIS ? this.autoTorchSamples + 1 : 0;
+    if (this.autoTorchSamples < TORCH_OFF_SAMPLES) return false;
+
+    this.autoTorchSamples = 0;
+    await this.disableFlash();
+    return !this.flashEnabled;
   }
 
   isLowLight(): boolean {
@@ -163,18 +246,26 @@ export class LowLightOptimizer {
   }
 
   setCurrentStream(stream: MediaStream): void {
-    this.currentStream = stream;
+    this.videoTrack = stream.getVideoTracks()[0] || null;
+    this.lowLightApplied = false;
+    this.flashEnabled = false;
+    this.autoTorchSamples = 0;
+    this.levelBeforeTorch = null;
+    this.torchGain = 0;
   }
 
   cleanup(): void {
     if (this.flashEnabled) {
       this.disableFlash();
     }
-    this.currentStream = null;
     this.videoTrack = null;
     this.lightLevel = 0;
     this.flashEnabled = false;
+    this.lowLightApplied = false;
+    this.autoTorchSamples = 0;
+    this.levelBeforeTorch = null;
+    this.torchGain = 0;
   }
 }
 
-export const lowLightOptimizer = LowLightOptimizer.getInstance();
\ No newline at end of file
+export const lowLightOptimizer = LowLightOptimizer.getInstance();
@@ -0,0 +1,172 @@
+// Offline Scan Queue - durable IndexedDB storage and in-order replay of scans captured without connectivity
+export interface QueuedScan {
+  id?: number;
+  qrData: string;
+  scannedAt: string;
+  status: 'pending' | 'conflict';
+  reason?: string;
+}
+
+/**
+ * Thrown when the server refuses a scan under the attendance or badge rules.
+ * Retrying cannot change the outcome, so replay keeps the scan as a conflict;
+ * any other failure leaves it queued for the next attempt.
+ */
+export class ScanRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScanRejectedError';
+  }
+}
+
+export interface ReplaySummary {
+  replayed: number;
+  conflicts: QueuedScan[];
+  remaining: number;
+}
+
+export class OfflineScanQueue {
+  private static instance: OfflineScanQueue;
+  private readonly dbName = 'attendance-offline';
+  private readonly storeName = 'scan_queue';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private isReplaying: boolean = false;
+
+  private constructor() {}
+
+  static getInstance(): OfflineScanQueue {
+    if (!OfflineScanQueue.instance) {
+      OfflineScanQueue.instance = new OfflineScanQueue();
+    }
+    return OfflineScanQueue.instance;
+  }
+
+  isSupported(): boolean {
+    return 'indexedDB' in window;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            const store = db.createObjectStore(this.storeName, { keyPath: 'id', autoIncrement: true });
+            store.createIndex('status', 'status');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = run(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async enqueue(qrData: string, scannedAt: Date): Promise<QueuedScan> {
+    const scan: QueuedScan = {
+      qrData,
+      scannedAt: scannedAt.toISOString(),
+      status: 'pending',
+    };
+    const id = await this.withStore('readwrite', store => store.add(scan));
+    return { ...scan, id: id as number };
+  }
+
+  private async getByStatus(status: QueuedScan['status']): Promise<QueuedScan[]> {
+    const scans = await this.withStore<QueuedScan[]>('readonly', store => store.index('status').getAll(status));
+    // Replay strictly in the order the scans happened
+    return scans.sort((a, b) => a.scannedAt.localeCompare(b.scannedAt) || (a.id || 0) - (b.id || 0));
+  }
+
+  getPending(): Promise<QueuedScan[]> {
+    return this.getByStatus('pending');
+  }
+
+  getConflicts(): Promise<QueuedScan[]> {
+    return this.getByStatus('conflict');
+  }
+
+  async getCounts(): Promise<{ pending: number; conflicts: number }> {
+    if (!this.isSupported()) return { pending: 0, conflicts: 0 };
+
+    const [pending, conflicts] = await Promise.all([
+      this.withStore('readonly', store => store.index('status').count('pending')),
+      this.withStore('readonly', store => store.index('status').count('conflict')),
+    ]);
+    return { pending, conflicts };
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(id));
+  }
+
+  async markConflict(scan: QueuedScan, reason: string): Promise<QueuedScan> {
+    const updated: QueuedScan = { ...scan, status: 'conflict', reason };
+    await this.withStore('readwrite', store => store.put(updated));
+    return updated;
+  }
+
+  async clearConflicts(): Promise<void> {
+    const conflicts = await this.getConflicts();
+    for (const conflict of conflicts) {
+      if (conflict.id !== undefined) await this.remove(conflict.id);
+    }
+  }
+
+  /**
+   * Replays pending scans in order. A scan the rules reject is kept as a
+   * conflict; any other failure, such as losing connectivity or a server
+   * error, stops the replay and leaves the rest queued so order is kept.
+   */
+  async replay(process: (scan: QueuedScan) => Promise<void>): Promise<ReplaySummary> {
+    const summary: ReplaySummary = { replayed: 0, conflicts: [], remaining: 0 };
+    if (this.isReplaying || !this.isSupported()) return summary;
+
+    this.isReplaying = true;
+    try {
+      const pending = await this.getPending();
+
+      for (let i = 0; i < pending.length; i++) {
+        const scan = pending[i];
+        try {
+          await process(scan);
+          await this.remove(scan.id!);
+          summary.replayed++;
+        } catch (error: unknown) {
+          if (!(error instanceof ScanRejectedError)) {
+            console.warn('Offline replay stopped, will retry:', error);
+            summary.remaining = pending.length - i;
+            break;
+          }
+          const reason = error.message || 'Rejected during replay';
+          summary.conflicts.push(await this.markConflict(scan, reason));
+        }
+      }
+    } finally {
+      this.isReplaying = false;
+    }
+
+    return summary;
+  }
+}
+
+export const offlineScanQueue = OfflineScanQueue.getInstance();
@@ -0,0 +1,13 @@
+// PIN Check - results of the server-side PIN functions shared by kiosk and employee PINs
+
+// Returned by the check_pin database function; the PIN hash never leaves the server
+export interface PinCheckResult {
+  status: 'ok' | 'wrong' | 'locked' | 'not_set';
+  // Seconds until a locked PIN can be tried again
+  retry_after?: number;
+}
+
+export const describeLockout = (retryAfterSeconds: number): string => {
+  const minutes = Math.max(1, Math.ceil(retryAfterSeconds / 60));
+  return `Too many wrong PINs. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,235 @@
+// Punch Photos - still frames captured at scan time as evidence for buddy-punching disputes
+import { supabase } from './supabase';
+import { PunchAction } from './attendanceEngine';
+
+export interface PunchPhoto {
+  id: string;
+  employee_id: string;
+  date: string;
+  punched_at: string;
+  action: PunchAction;
+  storage_ref: string;
+  created_at: string;
+}
+
+/**
+ * Where photo files live. Each stored reference is prefixed with the store's
+ * scheme, so photos saved under one store can still be shown after switching.
+ */
+export interface PunchPhotoStore {
+  readonly scheme: string;
+  save(path: string, photo: Blob): Promise<void>;
+  getUrls(paths: string[]): Promise<Map<string, string>>;
+}
+
+const PHOTO_MAX_WIDTH = 320;
+const PHOTO_QUALITY = 0.7;
+// Signed URLs only need to outlive a supervisor's review session
+const SIGNED_URL_SECONDS = 60 * 60;
+
+class SupabasePhotoStore implements PunchPhotoStore {
+  readonly scheme = 'supabase';
+  private readonly bucket = 'punch-photos';
+
+  async save(path: string, photo: Blob): Promise<void> {
+    const { error } = await supabase.storage
+      .from(this.bucket)
+      .upload(path, photo, { contentType: 'image/jpeg', upsert: true });
+
+    if (error) throw error;
+  }
+
+  async getUrls(paths: string[]): Promise<Map<string, string>> {
+    const urls = new Map<string, string>();
+    if (paths.length === 0) return urls;
+
+    const { data, error } = await supabase.storage
+      .from(this.bucket)
+      .createSignedUrls(paths, SIGNED_URL_SECONDS);
+
+    if (error) throw error;
+    (data || []).forEach(item => {
+      if (item.path && item.signedUrl) urls.set(item.path, item.signedUrl);
+    });
+    return urls;
+  }
+}
+
+/** Keeps photos in this browser's IndexedDB, for installs without Supabase storage. */
+class LocalPhotoStore implements PunchPhotoStore {
+  readonly scheme = 'local';
+  private readonly dbName = 'attendance-photos';
+  private readonly storeName = 'photos';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private objectUrls = new Map<string, string>();
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async save(path: string, photo: Blob): Promise<void> {
+    const db = await this.openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      transaction.objectStore(this.storeName).put(photo, path);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getUrls(paths: string[]): Promise<Map<string, string>> {
+    const urls = new Map<string, string>();
+    const db = await this.openDatabase();
+
+    for (const path of paths) {
+      let url = this.objectUrls.get(path);
+      if (!url) {
+        const photo = await new Promise<Blob | undefined>((resolve, reject) => {
+          const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).get(path);
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        });
+        if (!photo) continue;
+        url = URL.createObjectURL(photo);
+        this.objectUrls.set(path, url);
+      }
+      urls.set(path, url);
+    }
+    return urls;
+  }
+}
+
+const stores = new Map<string, PunchPhotoStore>();
+[new SupabasePhotoStore(), new LocalPhotoStore()].forEach(store => stores.set(store.scheme, store));
+
+let activeStore: PunchPhotoStore = stores.get(import.meta.env.VITE_PUNCH_PHOTO_STORE === 'local' ? 'local' : 'supabase')!;
+
+/** Swaps where new photos are saved, e.g. for a different storage backend. */
+export const setPunchPhotoStore = (store: PunchPhotoStore): void => {
+  stores.set(store.scheme, store);
+  activeStore = store;
+};
+
+const scaleToJpeg = (source: CanvasImageSource, width: number, height: number): Promise<Blob | null> => {
+  const scale = Math.min(1, PHOTO_MAX_WIDTH / width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.resolve(null);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', PHOTO_QUALITY));
+};
+
+/**
+ * Grabs the current frame of the scanner's video, scaled down and
+ * JPEG-compressed to a few kilobytes. Returns null when no frame is available.
+ */
+export const capturePunchPhoto = (video: HTMLVideoElement): Promise<Blob | null> => {
+  if (!video.videoWidth || !video.videoHeight) return Promise.resolve(null);
+  return scaleToJpeg(video, video.videoWidth, video.videoHeight);
+};
+
+/** Shrinks an uploaded image the same way, so it can be kept as the punch photo. */
+export const compressPunchPhoto = async (image: Blob): Promise<Blob | null> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    return await scaleToJpeg(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const savePunchPhoto = async (punch: {
+  employeeId: string;
+  date: string;
+  punchedAt: string;
+  action: PunchAction;
+  photo: Blob;
+}): Promise<void> => {
+  const path = `${punch.employeeId}/${punch.date}/${punch.punchedAt.replace(/[:.]/g, '-')}.jpg`;
+  await activeStore.save(path, punch.photo);
+
+  const { error } = await supabase
+    .from('punch_photos')
+    .insert({
+      employee_id: punch.employeeId,
+      date: punch.date,
+      punched_at: punch.punchedAt,
+      action: punch.action,
+      storage_ref: `${activeStore.scheme}:${path}`,
+    });
+
+  if (error) throw error;
+};
+
+/**
+ * Photos for the given days with a viewable URL each. Keys are
+ * `${employee_id}_${date}`; photos whose file is missing are left out.
+ */
+export const fetchPunchPhotos = async (
+  start: string,
+  end: string,
+  employeeId?: string
+): Promise<Map<string, Array<PunchPhoto & { url: string }>>> => {
+  let query = supabase
+    .from('punch_photos')
+    .select('*')
+    .gte('date', start)
+    .lte('date', end)
+    .order('punched_at');
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const pathsByScheme = new Map<string, string[]>();
+  (data || []).forEach(photo => {
+    const [scheme, path] = photo.storage_ref.split(/:(.*)/s);
+    pathsByScheme.set(scheme, [...(pathsByScheme.get(scheme) || []), path]);
+  });
+
+  const urls = new Map<string, string>();
+  for (const [scheme, paths] of pathsByScheme) {
+    const store = stores.get(scheme);
+    if (!store) continue;
+    (await store.getUrls(paths)).forEach((url, path) => urls.set(`${scheme}:${path}`, url));
+  }
+
+  const photos = new Map<string, Array<PunchPhoto & { url: string }>>();
+  (data || []).forEach(photo => {
+    const url = urls.get(photo.storage_ref);
+    if (!url) return;
+    const key = `${photo.employee_id}_${photo.date}`;
+    photos.set(key, [...(photos.get(key) || []), { ...photo, url }]);
+  });
+  return photos;
+};
+
+/** The photo taken for a punch at this instant, if any. */
+export const findPunchPhoto = <T extends PunchPhoto>(photos: T[] | undefined, time: string | null): T | undefined => {
+  if (!photos || !time) return undefined;
+  const instant = new Date(time).getTime();
+  return photos.find(photo => new Date(photo.punched_at).getTime() === instant);
+};
@@ -0,0 +1,147 @@
+// QR Credentials - signed badge payloads, rotating phone codes and the legacy EMP_ migration window
+import { supabase } from './supabase';
+import { fetchSettingsMap } from './attendanceSettings';
+
+// Printed badge: BDA1.<employee id>.<version>.<signature>
+export const SIGNED_BADGE_PREFIX = 'BDA1';
+// Phone badge: BDR1.<employee id>.<version>.<6-digit code>, changes every ROTATING_STEP_SECONDS
+export const ROTATING_BADGE_PREFIX = 'BDR1';
+export const LEGACY_BADGE_PREFIX = 'EMP_';
+
+export const ROTATING_STEP_SECONDS = 30;
+const ROTATING_CODE_DIGITS = 6;
+
+export type BadgeCredential =
+  | { kind: 'signed'; employeeId: string; version: number; signature: string }
+  | { kind: 'rotating'; employeeId: string; version: number; code: string }
+  | { kind: 'legacy'; code: string };
+
+// Held only by an enrolled phone; the secret stays on the server for everyone else
+export interface CredentialHolder {
+  id: string;
+  qr_version: number;
+  qr_secret: string;
+}
+
+export interface CredentialPolicy {
+  // Old static EMP_ codes are accepted until an admin closes the migration window
+  legacyCodesAllowed: boolean;
+  // Only rotating phone codes are accepted, so printed badges and screenshots stop working
+  rotatingRequired: boolean;
+}
+
+export const parseCredentialPolicy = (settingsMap: { [key: string]: string }): CredentialPolicy => ({
+  legacyCodesAllowed: settingsMap.qr_legacy_codes_allowed !== 'false',
+  rotatingRequired: settingsMap.qr_rotating_required === 'true',
+});
+
+export const fetchCredentialPolicy = async (): Promise<CredentialPolicy> => {
+  return parseCredentialPolicy(await fetchSettingsMap());
+};
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{2}/g) || []).map(pair => parseInt(pair, 16)));
+
+const hmac = async (secret: string, message: Uint8Array): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    fromHex(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+};
+
+/** HOTP (RFC 4226) over the time step, using HMAC-SHA-256; the server computes the same code to verify it. */
+const rotatingCode = async (secret: string, step: number): Promise<string> => {
+  const counter = new Uint8Array(8);
+  new DataView(counter.buffer).setBigUint64(0, BigInt(step));
+  const mac = await hmac(secret, counter);
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = new DataView(mac.buffer).getUint32(offset) & 0x7fffffff;
+  return (binary % 10 ** ROTATING_CODE_DIGITS).toString().padStart(ROTATING_CODE_DIGITS, '0');
+};
+
+const getTimeStep = (at: Date): number => Math.floor(at.getTime() / 1000 / ROTATING_STEP_SECONDS);
+
+/** Seconds until the phone code changes. */
+export const getSecondsUntilRotation = (at: Date = new Date()): number => {
+  return ROTATING_STEP_SECONDS - (Math.floor(at.getTime() / 1000) % ROTATING_STEP_SECONDS);
+};
+
+/** The employee's current printed badge, signed on the server. */
+export const fetchSignedBadge = async (employeeId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('signed_badge', { employee_id: employeeId });
+  if (error || !data) throw new Error('Failed to load the badge');
+  return data as string;
+};
+
+export const createRotatingBadge = async (holder: CredentialHolder, at: Date = new Date()): Promise<string> => {
+  const code = await rotatingCode(holder.qr_secret, getTimeStep(at));
+  return `${ROTATING_BADGE_PREFIX}.${holder.id}.${holder.qr_version}.${code}`;
+};
+
+/**
+ * Enrolment link for an employee's phone badge. It carries the secret, so it
+ * is fetched only when an admin shows it to the employee and goes in the URL
+ * fragment, which browsers never send to the server.
+ */
+export const fetchPhoneBadgeLink = async (employee: { id: string; qr_version: number }): Promise<string> => {
+  const { data, error } = await supabase.rpc('phone_badge_secret', { employee_id: employee.id });
+  if (error || !data) throw new Error('Failed to load the phone badge');
+  return `${window.location.origin}${window.location.pathname}#badge=${employee.id}.${employee.qr_version}.${data}`;
+};
+
+export const parsePhoneBadgeToken = (token: string): CredentialHolder | null => {
+  const [id, version, secret] = token.split('.');
+  if (!id || !Number(version) || !/^[0-9a-f]{64}$/.test(secret || '')) return null;
+  return { id, qr_version: Number(version), qr_secret: secret };
+};
+
+export const parseBadgeCredential = (data: string): BadgeCredential | null => {
+  const value = data.trim();
+  if (value.startsWith(LEGACY_BADGE_PREFIX)) return { kind: 'legacy', code: value };
+
+  const [prefix, employeeId, version, last, ...rest] = value.split('.');
+  if (!employeeId || !Number.isInteger(Number(version)) || !last || rest.length > 0) return null;
+
+  if (prefix === SIGNED_BADGE_PREFIX) {
+    return { kind: 'signed', employeeId, version: Number(version), signature: last };
+  }
+  if (prefix === ROTATING_BADGE_PREFIX && /^\d+$/.test(last)) {
+    return { kind: 'rotating', employeeId, version: Number(version), code: last };
+  }
+  return null;
+};
+
+/**
+ * Checks a signed or rotating credential against the employee's secret on the
+ * server. The caller handles older versions, which are revoked badges. Rotating
+ * codes are checked at the scan time, so queued offline scans validate against
+ * when they were made. Returns an error message, or null when the credential is
+ * valid; throws when the server cannot be asked.
+ */
+export const verifyBadgeCredential = async (
+  credential: Exclude<BadgeCredential, { kind: 'legacy' }>,
+  policy: CredentialPolicy,
+  scannedAt: Date
+): Promise<string | null> => {
+  if (credential.kind === 'signed' && policy.rotatingRequired) {
+    return 'Printed badges are not accepted. Please show the code on your phone';
+  }
+
+  const { data: valid, error } = await supabase.rpc('verify_badge', {
+    employee_id: credential.employeeId,
+    badge_version: credential.version,
+    kind: credential.kind,
+    proof: credential.kind === 'signed' ? credential.signature : credential.code,
+    scanned_at: scannedAt.toISOString(),
+  });
+  if (error) throw new Error('Failed to validate QR code');
+
+  if (valid) return null;
+  return credential.kind === 'signed'
+    ? 'Invalid QR code'
+    : 'This code has expired. Please scan the code currently on your phone';
+};
@@ -0,0 +1,145 @@
+// Scan Events - append-only log of every scan, from which attendance records are derived
+import { supabase } from './supabase';
+import {
+  AttendanceRules,
+  AttendanceSession,
+  applyAutoCheckOut,
+  applyScan,
+  calculateOvertimeMinutes,
+  calculateTotalHours,
+  Lateness,
+  PunchAction,
+  PunchMethod,
+  ShiftSchedule,
+  tagPunchDevice,
+  tagPunchMethod,
+} from './attendanceEngine';
+
+// accepted: recorded a punch; rejected: valid badge refused by the attendance rules
+// (cooldown, day complete); invalid: unreadable, revoked or unknown badge, a disabled
+// device or a required punch photo that could not be taken
+export type ScanEventOutcome = 'accepted' | 'rejected' | 'invalid';
+
+// image: decoded from an uploaded or pasted photo instead of the live camera
+export type ScanEventSource = 'scanner' | 'offline_queue' | 'image';
+
+export interface ScanEvent {
+  id: string;
+  employee_id: string | null;
+  device_id: string | null;
+  scanned_at: string;
+  source: ScanEventSource;
+  method: PunchMethod;
+  payload: string;
+  outcome: ScanEventOutcome;
+  action: PunchAction | null;
+  attendance_date: string | null;
+  reason: string | null;
+  recorded_at: string;
+}
+
+export interface NewScanEvent {
+  employeeId?: string | null;
+  deviceId?: string | null;
+  scannedAt: Date;
+  source: ScanEventSource;
+  method?: PunchMethod;
+  payload: string;
+  outcome: ScanEventOutcome;
+  action?: PunchAction | null;
+  attendanceDate?: string | null;
+  reason?: string | null;
+}
+
+export interface ReplayResult {
+  sessions: AttendanceSession[];
+  lateness: Lateness | null;
+  totalHours: number;
+  overtimeMinutes: number;
+  autoClosed: boolean;
+}
+
+// Enough to tell badges apart in a dispute without storing arbitrary scanned text
+const MAX_PAYLOAD_LENGTH = 200;
+
+export const recordScanEvent = async (event: NewScanEvent): Promise<void> => {
+  const { error } = await supabase
+    .from('scan_events')
+    .insert({
+      employee_id: event.employeeId || null,
+      device_id: event.deviceId || null,
+      scanned_at: event.scannedAt.toISOString(),
+      source: event.source,
+      method: event.method || 'qr',
+      payload: event.payload.trim().slice(0, MAX_PAYLOAD_LENGTH),
+      outcome: event.outcome,
+      action: event.action || null,
+      attendance_date: event.attendanceDate || null,
+      reason: event.reason || null,
+    });
+
+  if (error) throw error;
+};
+
+/** Every scan logged against an employee's attendance day, oldest first. */
+export const fetchScanEvents = async (employeeId: string, date: string): Promise<ScanEvent[]> => {
+  const { data, error } = await supabase
+    .from('scan_events')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .eq('attendance_date', date)
+    .order('scanned_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Re-applies the rules to a day's logged scans in order, as the scanner would
+ * have with these rules. Scans that were refused by the rules are replayed too,
+ * so a relaxed rule can accept them; invalid scans never had a valid badge and
+ * are skipped. Open sessions past the auto check-out policy at `now` are closed.
+ */
+export const replayScanEvents = (
+  events: ScanEvent[],
+  rules: AttendanceRules,
+  schedule: ShiftSchedule,
+  now: Date = new Date()
+): ReplayResult => {
+  let sessions: AttendanceSession[] = [];
+  let lateness: Lateness | null = null;
+  let autoClosed = false;
+
+  events
+    .filter(event => event.outcome !== 'invalid')
+    .sort((a, b) => new Date(a.scanned_at).getTime() - new Date(b.scanned_at).getTime())
+    .forEach(event => {
+      const scannedAt = new Date(event.scanned_at);
+      const closed = applyAutoCheckOut(sessions, scannedAt, rules, schedule);
+      if (closed) {
+        sessions = closed.sessions;
+        autoClosed = true;
+      }
+
+      const outcome = applyScan(sessions, scannedAt, rules, schedule);
+      if (!outcome.ok) return;
+
+      sessions = tagPunchMethod(outcome.sessions, outcome.punch, event.method);
+      if (event.device_id) sessions = tagPunchDevice(sessions, outcome.punch, event.device_id);
+      if (outcome.lateness) lateness = outcome.lateness;
+    });
+
+  const closed = applyAutoCheckOut(sessions, now, rules, schedule);
+  if (closed) {
+    sessions = closed.sessions;
+    autoClosed = true;
+  }
+
+  return {
+    sessions,
+    lateness,
+    totalHours: calculateTotalHours(sessions),
+    overtimeMinutes: calculateOvertimeMinutes(sessions, rules, schedule),
+    autoClosed,
+  };
+};
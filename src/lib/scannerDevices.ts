@@ -0,0 +1,144 @@
+// Scanner Devices - registered phones and tablets, so every punch records which scanner took it
+import { supabase } from './supabase';
+import { ScanRejectedError } from './offlineQueue';
+
+// camera: badges are read by the device camera; wedge: a handheld scanner types each code followed by Enter
+export type ScannerInputMode = 'camera' | 'wedge';
+
+// Badges a handheld scanner accepts
+export type BadgeSymbology = 'any' | 'qr' | 'code128';
+
+export interface ScannerDevice {
+  id: string;
+  name: string;
+  location: string;
+  enabled: boolean;
+  input_mode: ScannerInputMode;
+  badge_symbology: BadgeSymbology;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
+interface LocalDevice {
+  id: string;
+  token: string;
+}
+
+// This browser's registration; the token proves the device is the one registered
+const DEVICE_STORAGE_KEY = 'attendance-scanner-device';
+// Avoids a write on every scan just to record that the device is in use
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashToken = async (token: string): Promise<string> => {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))));
+};
+
+export const getLocalDevice = (): LocalDevice | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DEVICE_STORAGE_KEY) || 'null');
+    return stored?.id && stored?.token ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const forgetLocalDevice = (): void => {
+  localStorage.removeItem(DEVICE_STORAGE_KEY);
+};
+
+/** Registers this browser as a scanner. Only the token's hash is stored in the database. */
+export const registerScannerDevice = async (name: string, location: string): Promise<ScannerDevice> => {
+  if (!name.trim()) throw new Error('A device name is required');
+
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const { data, error } = await supabase
+    .from('scanner_devices')
+    .insert({
+      name: name.trim(),
+      location: location.trim(),
+      token_hash: await hashToken(token),
+      enabled: true,
+    })
+    .select('id, name, location, enabled, input_mode, badge_symbology, last_seen_at, created_at')
+    .single();
+
+  if (error) throw error;
+  localStorage.setItem(DEVICE_STORAGE_KEY, JSON.stringify({ id: data.id, token }));
+  return data;
+};
+
+export const DEVICE_DISABLED_MESSAGE = 'This scanner has been disabled by an admin';
+
+let lastSeenUpdate = 0;
+
+/**
+ * The registered device this scanner runs on. Throws when the browser is not
+ * registered, the registration was deleted or an admin has disabled it. A
+ * deleted or disabled registration is a ScanRejectedError, so queued offline
+ * scans become conflicts to review instead of blocking the queue.
+ */
+export const verifyScannerDevice = async (): Promise<ScannerDevice> => {
+  const local = getLocalDevice();
+  if (!local) throw new Error('This scanner is not registered. Please register the device first');
+
+  const { data, error } = await supabase
+    .from('scanner_devices')
+    .select('id, name, location, enabled, input_mode, badge_symbology, last_seen_at, created_at, token_hash')
+    .eq('id', local.id)
+    .maybeSingle();
+
+  if (error) throw new Error('Failed to check this scanner');
+  if (!data || data.token_hash !== await hashToken(local.token)) {
+    throw new ScanRejectedError('This scanner is no longer registered. Please register the device again');
+  }
+  if (!data.enabled) {
+    throw new ScanRejectedError(DEVICE_DISABLED_MESSAGE);
+  }
+
+  if (Date.now() - lastSeenUpdate > LAST_SEEN_INTERVAL_MS) {
+    lastSeenUpdate = Date.now();
+    supabase
+      .from('scanner_devices')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', data.id)
+      .then(({ error: touchError }) => {
+        if (touchError) console.warn('Failed to update scanner last seen:', touchError);
+      });
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    location: data.location,
+    enabled: data.enabled,
+    input_mode: data.input_mode,
+    badge_symbology: data.badge_symbology,
+    last_seen_at: data.last_seen_at,
+    created_at: data.created_at,
+  };
+};
+
+export const fetchScannerDevices = async (): Promise<ScannerDevice[]> => {
+  const { data, error } = await supabase
+    .from('scanner_devices')
+    .select('id, name, location, enabled, input_mode, badge_symbology, last_seen_at, created_at')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const updateScannerDevice = async (
+  id: string,
+  changes: Partial<Pick<ScannerDevice, 'name' | 'location' | 'enabled' | 'input_mode' | 'badge_symbology'>>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('scanner_devices')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
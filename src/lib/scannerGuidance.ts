@@ -1,4 +1,20 @@
 // Scanner Guidance and Error Handling System
+export interface GuidancePoint {
+  x: number;
+  y: number;
+}
+
+// idle: nothing in frame yet; ok: ready to scan; adjust: the employee should move; problem: scanning cannot work as is
+export type GuidanceLevel = 'idle' | 'ok' | 'adjust' | 'problem';
+
+export interface LiveGuidance {
+  message: string;
+  level: GuidanceLevel;
+}
+
+// Below this brightness (0-255) codes rarely decode, whatever the distance
+const TOO_DARK_LIGHT_LEVEL = 30;
+
 export class ScannerGuidance {
   private static instance: ScannerGuidance;
   private currentDistance: number = 0;
@@ -48,6 +64,40 @@ export class ScannerGuidance {
     }
   }
 
+  /** Mean side length of the detected code, in video pixels. */
+  getCodeSize(cornerPoints: GuidancePoint[]): number {
+    if (cornerPoints.length < 2) return 0;
+    const total = cornerPoints.reduce((sum, point, index) => {
+      const next = cornerPoints[(index + 1) % cornerPoints.length];
+      return sum + Math.hypot(next.x - point.x, next.y - point.y);
+    }, 0);
+    return total / cornerPoints.length;
+  }
+
+  /**
+   * Guidance for the current frame from the detected code's corner points
+   * (null when no code is in view) and the light level (0-255). Poor light
+   * comes first, since moving the badge cannot fix it.
+   */
+  getLiveGuidance(videoElement: HTMLVideoElement, cornerPoints: GuidancePoint[] | null, lightLevel: number): LiveGuidance {
+    if (cornerPoints && cornerPoints.length > 0) {
+      this.estimateDistance(videoElement, this.getCodeSize(cornerPoints));
+    } else {
+      this.currentDistance = 0;
+    }
+
+    if (lightLevel < TOO_DARK_LIGHT_LEVEL) {
+      return { message: this.getLightingGuidance(lightLevel), level: 'problem' };
+    }
+    if (this.currentDistance === 0) {
+      return { message: this.getDistanceGuidance(), level: 'idle' };
+    }
+    return {
+      message: this.getDistanceGuidance(),
+      level: this.currentDistance >= 20 && this.currentDistance <= 40 ? 'ok' : 'adjust',
+    };
+  }
+
   getLightingGuidance(lightLevel: number): string {
     if (lightLevel < 10) {
       return 'Very low light - enable flash or move to brighter area';
@@ -229,4 +279,4 @@ export class ScannerGuidance {
   }
 }
 
-export const scannerGuidance = ScannerGuidance.getInstance();
\ No newline at end of file
+export const scannerGuidance = ScannerGuidance.getInstance();
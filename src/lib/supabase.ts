@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { AttendanceSession } from './attendanceEngine';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -46,6 +47,7 @@ export type Database = {
           contact_number: string;
           department_id: string | null;
           qr_code: string;
+          qr_version: number;
           is_active: boolean;
           created_at: string;
         };
@@ -55,7 +57,8 @@ export type Database = {
           last_name: string;
           contact_number: string;
           department_id?: string | null;
-          qr_code: string;
+          qr_code?: string;
+          qr_version?: number;
           is_active?: boolean;
           created_at?: string;
         };
@@ -66,6 +69,7 @@ export type Database = {
           contact_number?: string;
           department_id?: string | null;
           qr_code?: string;
+          qr_version?: number;
           is_active?: boolean;
           created_at?: string;
         };
@@ -79,8 +83,15 @@ export type Database = {
           first_check_out: string | null;
           second_check_in: string | null;
           second_check_out: string | null;
+          sessions: AttendanceSession[];
           total_hours: number;
           is_late: boolean;
+          late_duration: number;
+          overtime_minutes: number;
+          auto_closed: boolean;
+          auto_close_reviewed: boolean;
+          manually_edited: boolean;
+          break_duration: number;
           created_at: string;
         };
         Insert: {
@@ -91,8 +102,15 @@ export type Database = {
           first_check_out?: string | null;
           second_check_in?: string | null;
           second_check_out?: string | null;
+          sessions?: AttendanceSession[];
           total_hours?: number;
           is_late?: boolean;
+          late_duration?: number;
+          overtime_minutes?: number;
+          auto_closed?: boolean;
+          auto_close_reviewed?: boolean;
+          manually_edited?: boolean;
+          break_duration?: number;
           created_at?: string;
         };
         Update: {
@@ -103,8 +121,15 @@ export type Database = {
           first_check_out?: string | null;
           second_check_in?: string | null;
           second_check_out?: string | null;
+          sessions?: AttendanceSession[];
           total_hours?: number;
           is_late?: boolean;
+          late_duration?: number;
+          overtime_minutes?: number;
+          auto_closed?: boolean;
+          auto_close_reviewed?: boolean;
+          manually_edited?: boolean;
+          break_duration?: number;
           created_at?: string;
         };
       };
@@ -137,6 +162,285 @@ export type Database = {
           created_at?: string;
         };
       };
+      attendance_audit_log: {
+        Row: {
+          id: string;
+          attendance_record_id: string | null;
+          employee_id: string;
+          date: string;
+          action: 'create' | 'update';
+          changed_by: string;
+          reason: string;
+          before: Record<string, unknown> | null;
+          after: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          attendance_record_id?: string | null;
+          employee_id: string;
+          date: string;
+          action: 'create' | 'update';
+          changed_by: string;
+          reason: string;
+          before?: Record<string, unknown> | null;
+          after: Record<string, unknown>;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          attendance_record_id?: string | null;
+          employee_id?: string;
+          date?: string;
+          action?: 'create' | 'update';
+          changed_by?: string;
+          reason?: string;
+          before?: Record<string, unknown> | null;
+          after?: Record<string, unknown>;
+          created_at?: string;
+        };
+      };
+      leave_requests: {
+        Row: {
+          id: string;
+          employee_id: string;
+          leave_type: 'annual' | 'casual' | 'sick' | 'no_pay';
+          start_date: string;
+          end_date: string;
+          reason: string;
+          status: 'pending' | 'approved' | 'rejected';
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          review_note: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          employee_id: string;
+          leave_type?: 'annual' | 'casual' | 'sick' | 'no_pay';
+          start_date: string;
+          end_date: string;
+          reason: string;
+          status?: 'pending' | 'approved' | 'rejected';
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          review_note?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          employee_id?: string;
+          leave_type?: 'annual' | 'casual' | 'sick' | 'no_pay';
+          start_date?: string;
+          end_date?: string;
+          reason?: string;
+          status?: 'pending' | 'approved' | 'rejected';
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          review_note?: string | null;
+          created_at?: string;
+        };
+      };
+      leave_entitlements: {
+        Row: {
+          id: string;
+          employee_id: string;
+          year: number;
+          leave_type: 'annual' | 'casual' | 'sick';
+          days: number;
+          accrual: 'annual' | 'monthly';
+          carry_forward_cap: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          employee_id: string;
+          year: number;
+          leave_type: 'annual' | 'casual' | 'sick';
+          days?: number;
+          accrual?: 'annual' | 'monthly';
+          carry_forward_cap?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          employee_id?: string;
+          year?: number;
+          leave_type?: 'annual' | 'casual' | 'sick';
+          days?: number;
+          accrual?: 'annual' | 'monthly';
+          carry_forward_cap?: number;
+          created_at?: string;
+        };
+      };
+      holidays: {
+        Row: {
+          id: string;
+          date: string;
+          name: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          date: string;
+          name: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          date?: string;
+          name?: string;
+          created_at?: string;
+        };
+      };
+      badge_history: {
+        Row: {
+          id: string;
+          employee_id: string;
+          qr_code: string;
+          qr_version: number;
+          reason: string;
+          revoked_at: string;
+        };
+        Insert: {
+          id?: string;
+          employee_id: string;
+          qr_code: string;
+          qr_version: number;
+          reason: string;
+          revoked_at?: string;
+        };
+        Update: {
+          id?: string;
+          employee_id?: string;
+          qr_code?: string;
+          qr_version?: number;
+          reason?: string;
+          revoked_at?: string;
+        };
+      };
+      punch_photos: {
+        Row: {
+          id: string;
+          employee_id: string;
+          date: string;
+          punched_at: string;
+          action: 'check-in' | 'check-out';
+          storage_ref: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          employee_id: string;
+          date: string;
+          punched_at: string;
+          action: 'check-in' | 'check-out';
+          storage_ref: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          employee_id?: string;
+          date?: string;
+          punched_at?: string;
+          action?: 'check-in' | 'check-out';
+          storage_ref?: string;
+          created_at?: string;
+        };
+      };
+      scanner_devices: {
+        Row: {
+          id: string;
+          name: string;
+          location: string;
+          token_hash: string;
+          enabled: boolean;
+          input_mode: 'camera' | 'wedge';
+          badge_symbology: 'any' | 'qr' | 'code128';
+          last_seen_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          location?: string;
+          token_hash: string;
+          enabled?: boolean;
+          input_mode?: 'camera' | 'wedge';
+          badge_symbology?: 'any' | 'qr' | 'code128';
+          last_seen_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          location?: string;
+          token_hash?: string;
+          enabled?: boolean;
+          input_mode?: 'camera' | 'wedge';
+          badge_symbology?: 'any' | 'qr' | 'code128';
+          last_seen_at?: string | null;
+          created_at?: string;
+        };
+      };
+      scan_events: {
+        Row: {
+          id: string;
+          employee_id: string | null;
+          device_id: string | null;
+          scanned_at: string;
+          source: 'scanner' | 'offline_queue' | 'image';
+          method: 'qr' | 'pin';
+          payload: string;
+          outcome: 'accepted' | 'rejected' | 'invalid';
+          action: 'check-in' | 'check-out' | null;
+          attendance_date: string | null;
+          reason: string | null;
+          recorded_at: string;
+        };
+        Insert: {
+          id?: string;
+          employee_id?: string | null;
+          device_id?: string | null;
+          scanned_at: string;
+          source?: 'scanner' | 'offline_queue' | 'image';
+          method?: 'qr' | 'pin';
+          payload?: string;
+          outcome: 'accepted' | 'rejected' | 'invalid';
+          action?: 'check-in' | 'check-out' | null;
+          attendance_date?: string | null;
+          reason?: string | null;
+          recorded_at?: string;
+        };
+        Update: {
+          id?: string;
+          employee_id?: string | null;
+          device_id?: string | null;
+          scanned_at?: string;
+          source?: 'scanner' | 'offline_queue' | 'image';
+          method?: 'qr' | 'pin';
+          payload?: string;
+          outcome?: 'accepted' | 'rejected' | 'invalid';
+          action?: 'check-in' | 'check-out' | null;
+          attendance_date?: string | null;
+          reason?: string | null;
+          recorded_at?: string;
+        };
+      };
+      absence_alert_runs: {
+        Row: {
+          date: string;
+          claimed_at: string;
+        };
+        Insert: {
+          date: string;
+          claimed_at?: string;
+        };
+        Update: {
+          date?: string;
+          claimed_at?: string;
+        };
+      };
       settings: {
         Row: {
           id: string;
@@ -58,6 +58,10 @@ export class VoiceService {
     this.synth.speak(utterance);
   }
 
+  isSpeaking(): boolean {
+    return Boolean(this.synth?.speaking);
+  }
+
   announceAttendance(employeeName: string, action: string, time: string): void {
     const actionText = this.getActionText(action);
     const message = `${employeeName} has ${actionText} at ${this.formatTimeForSpeech(time)}`;
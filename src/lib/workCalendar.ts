@@ -0,0 +1,202 @@
+// Work Calendar - weekly work pattern and public holidays, with CSV/ICS holiday import
+import Papa from 'papaparse';
+import { supabase } from './supabase';
+import { fetchSettingsMap } from './attendanceSettings';
+import { addBusinessDays, parseBusinessDate } from '../utils/dateTime';
+
+export type WorkDayType = 'full' | 'half' | 'off';
+
+// Indexed by day of week, Sunday first (as Date.getDay)
+export type WorkPattern = WorkDayType[];
+
+export interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+  created_at?: string;
+}
+
+export interface WorkCalendar {
+  pattern: WorkPattern;
+  holidays: Map<string, Holiday>;
+}
+
+export interface CalendarDay {
+  type: WorkDayType | 'holiday';
+  holiday: Holiday | null;
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const WORK_DAY_TYPE_LABELS: Record<WorkDayType, string> = {
+  full: 'Full day',
+  half: 'Half day',
+  off: 'Day off',
+};
+
+// Monday to Saturday, Sunday off
+export const DEFAULT_WORK_PATTERN: WorkPattern = ['off', 'full', 'full', 'full', 'full', 'full', 'full'];
+
+const WORK_DAY_TYPES: WorkDayType[] = ['full', 'half', 'off'];
+
+/** Settings store the pattern as seven comma-separated day types, Sunday first. */
+export const parseWorkPattern = (value?: string): WorkPattern => {
+  const days = (value || '').split(',').map(day => day.trim());
+  if (days.length !== 7 || !days.every(day => WORK_DAY_TYPES.includes(day as WorkDayType))) {
+    return [...DEFAULT_WORK_PATTERN];
+  }
+  return days as WorkPattern;
+};
+
+export const serializeWorkPattern = (pattern: WorkPattern): string => pattern.join(',');
+
+export const getCalendarDay = (calendar: WorkCalendar, date: string): CalendarDay => {
+  const holiday = calendar.holidays.get(date) || null;
+  if (holiday) return { type: 'holiday', holiday };
+  return { type: calendar.pattern[parseBusinessDate(date).getDay()], holiday: null };
+};
+
+export const isWorkingDay = (calendar: WorkCalendar, date: string): boolean => {
+  const { type } = getCalendarDay(calendar, date);
+  return type === 'full' || type === 'half';
+};
+
+/**
+ * Work on a holiday or weekly day off is paid at a premium. Returns the label
+ * to show against the record, or null for an ordinary working day.
+ */
+export const getPremiumLabel = (calendar: WorkCalendar, date: string): string | null => {
+  const day = getCalendarDay(calendar, date);
+  if (day.holiday) return day.holiday.name;
+  return day.type === 'off' ? 'Rest day' : null;
+};
+
+/** Whether the work calendar makes the date a half working day. */
+export const fetchIsHalfDay = async (date: string): Promise<boolean> => {
+  const calendar = await fetchWorkCalendar(date, date);
+  return getCalendarDay(calendar, date).type === 'half';
+};
+
+export const countWorkingDays = (calendar: WorkCalendar, start: string, end: string): number => {
+  let days = 0;
+  for (let date = start; date <= end; date = addBusinessDays(date, 1)) {
+    if (isWorkingDay(calendar, date)) days++;
+  }
+  return days;
+};
+
+export const fetchHolidays = async (start: string, end: string): Promise<Holiday[]> => {
+  const { data, error } = await supabase
+    .from('holidays')
+    .select('*')
+    .gte('date', start)
+    .lte('date', end)
+    .order('date');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchWorkCalendar = async (start: string, end: string): Promise<WorkCalendar> => {
+  const [settingsMap, holidays] = await Promise.all([
+    fetchSettingsMap(),
+    fetchHolidays(start, end),
+  ]);
+
+  return {
+    pattern: parseWorkPattern(settingsMap.work_pattern),
+    holidays: new Map(holidays.map(holiday => [holiday.date, holiday])),
+  };
+};
+
+/** Adds holidays, replacing the name of any already on the same date. */
+export const saveHolidays = async (holidays: Array<Pick<Holiday, 'date' | 'name'>>): Promise<void> => {
+  if (holidays.length === 0) throw new Error('No holidays found to import');
+
+  // An upsert may only touch each date once
+  const byDate = new Map(holidays.map(holiday => [holiday.date, holiday]));
+
+  const { error } = await supabase
+    .from('holidays')
+    .upsert(Array.from(byDate.values()), { onConflict: 'date' });
+
+  if (error) throw error;
+};
+
+export const deleteHoliday = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('holidays')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/** Accepts yyyy-MM-dd, yyyyMMdd and dd/MM/yyyy. */
+const normalizeDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) return `${match[3]}-${pad(Number(match[2]))}-${pad(Number(match[1]))}`;
+  return null;
+};
+
+/** CSV with a Date column and a Name (or Holiday / Description) column. */
+export const parseHolidayCsv = (text: string): Array<Pick<Holiday, 'date' | 'name'>> => {
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim().toLowerCase(),
+  });
+
+  return result.data
+    .map(row => ({
+      date: normalizeDate(row.date || ''),
+      name: (row.name || row.holiday || row.description || '').trim(),
+    }))
+    .filter((row): row is Pick<Holiday, 'date' | 'name'> => !!row.date && !!row.name);
+};
+
+/** All-day VEVENTs from an iCalendar file; multi-day events become one holiday per day. */
+export const parseHolidayIcs = (text: string): Array<Pick<Holiday, 'date' | 'name'>> => {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: Array<Pick<Holiday, 'date' | 'name'>> = [];
+  let event: { start?: string; end?: string; name?: string } | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      return;
+    }
+    if (!event) return;
+
+    if (line === 'END:VEVENT') {
+      const { start, end, name } = event;
+      if (start && name) {
+        // DTEND is exclusive for all-day events
+        const last = end && end > start ? addBusinessDays(end, -1) : start;
+        for (let date = start; date <= last; date = addBusinessDays(date, 1)) {
+          holidays.push({ date, name });
+        }
+      }
+      event = null;
+      return;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === 'DTSTART') event.start = normalizeDate(value) || undefined;
+    if (property === 'DTEND') event.end = normalizeDate(value) || undefined;
+    if (property === 'SUMMARY') event.name = value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ').trim();
+  });
+
+  return holidays;
+};
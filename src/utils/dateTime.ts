@@ -0,0 +1,96 @@
+import { addDays, format, parseISO } from 'date-fns'
+
+// Business dates and displayed times follow the organisation timezone, not the browser locale
+export const DEFAULT_TIME_ZONE = 'Asia/Colombo'
+
+let organisationTimeZone = DEFAULT_TIME_ZONE
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const setOrganisationTimeZone = (timeZone: string | null | undefined) => {
+  organisationTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+}
+
+export const getOrganisationTimeZone = (): string => organisationTimeZone
+
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date)
+
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value)
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second')
+  }
+}
+
+/**
+ * Returns a Date whose local fields show the wall-clock time in the given
+ * timezone. Only use it for formatting or calendar maths, never for storage.
+ */
+export const toZonedTime = (date: Date | string, timeZone: string = organisationTimeZone): Date => {
+  const instant = typeof date === 'string' ? new Date(date) : date
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timeZone)
+  return new Date(year, month - 1, day, hour, minute, second, instant.getMilliseconds())
+}
+
+export const getTimeZoneOffsetMs = (date: Date, timeZone: string = organisationTimeZone): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second)
+  return asUtc - (date.getTime() - date.getMilliseconds())
+}
+
+export const formatInTimeZone = (
+  date: Date | string,
+  pattern: string,
+  timeZone: string = organisationTimeZone
+): string => {
+  return format(toZonedTime(date, timeZone), pattern)
+}
+
+/** The attendance day (yyyy-MM-dd) an instant belongs to in the organisation timezone. */
+export const getBusinessDate = (date: Date = new Date(), timeZone: string = organisationTimeZone): string => {
+  return formatInTimeZone(date, 'yyyy-MM-dd', timeZone)
+}
+
+/** Converts a business date and wall-clock time (HH:mm[:ss]) in the timezone to an instant. */
+export const zonedDateTimeToUtc = (
+  date: string,
+  time: string,
+  timeZone: string = organisationTimeZone
+): Date => {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds)
+
+  // Resolve the offset twice so instants next to a DST switch land correctly
+  let instant = wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone)
+  instant = wallClock - getTimeZoneOffsetMs(new Date(instant), timeZone)
+  return new Date(instant)
+}
+
+/** Parses a yyyy-MM-dd business date as a local calendar date for display. */
+export const parseBusinessDate = (date: string): Date => parseISO(date)
+
+export const addBusinessDays = (date: string, days: number): string => {
+  return format(addDays(parseBusinessDate(date), days), 'yyyy-MM-dd')
+}
@@ -0,0 +1,39 @@
+/*
+  # Multi-Session Attendance
+
+  1. Updates
+    - Add `sessions` (jsonb) to attendance_records holding every check-in/check-out pair of the day
+    - Backfill sessions from the legacy first/second check-in columns
+    - Add max_sessions_per_day setting
+
+  2. Notes
+    - The legacy first/second columns are still written for the first two sessions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'attendance_records' AND column_name = 'sessions'
+  ) THEN
+    ALTER TABLE attendance_records ADD COLUMN sessions jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+-- Backfill sessions from the legacy columns
+UPDATE attendance_records
+SET sessions = (
+  SELECT COALESCE(jsonb_agg(session ORDER BY position), '[]'::jsonb)
+  FROM (
+    SELECT 1 AS position, jsonb_build_object('check_in', first_check_in, 'check_out', first_check_out) AS session
+    WHERE first_check_in IS NOT NULL
+    UNION ALL
+    SELECT 2, jsonb_build_object('check_in', second_check_in, 'check_out', second_check_out)
+    WHERE second_check_in IS NOT NULL
+  ) legacy
+)
+WHERE sessions = '[]'::jsonb AND first_check_in IS NOT NULL;
+
+INSERT INTO settings (key, value, description) VALUES
+  ('max_sessions_per_day', '2', 'Maximum check-in/check-out sessions per employee per day')
+ON CONFLICT (key) DO NOTHING;
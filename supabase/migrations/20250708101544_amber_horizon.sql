@@ -0,0 +1,13 @@
+/*
+  # Organisation Timezone
+
+  1. Updates
+    - Add organisation_timezone setting used to derive attendance dates and display times
+
+  2. Notes
+    - Defaults to Sri Lanka time (UTC+5:30)
+*/
+
+INSERT INTO settings (key, value, description) VALUES
+  ('organisation_timezone', 'Asia/Colombo', 'IANA timezone used for attendance dates and times')
+ON CONFLICT (key) DO NOTHING;
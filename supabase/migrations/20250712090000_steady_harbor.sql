@@ -0,0 +1,25 @@
+/*
+  # Overtime
+
+  1. Updates
+    - Add `overtime_minutes` to attendance_records, worked time beyond the rostered shift
+      (minus break) or the default working day
+    - Add overtime_threshold setting
+
+  2. Notes
+    - An overtime alert is sent once a record's overtime passes the threshold
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'attendance_records' AND column_name = 'overtime_minutes'
+  ) THEN
+    ALTER TABLE attendance_records ADD COLUMN overtime_minutes integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+INSERT INTO settings (key, value, description) VALUES
+  ('overtime_threshold', '30', 'Minutes of overtime before an overtime alert is sent')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,11 @@
+/*
+  # Absence Cut-off
+
+  1. Updates
+    - Add absence_cutoff_time setting; employees with no attendance record by this time
+      are counted absent and an absence alert is sent
+*/
+
+INSERT INTO settings (key, value, description) VALUES
+  ('absence_cutoff_time', '10:00', 'Time of day after which employees without a check-in are marked absent')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,34 @@
+/*
+  # Auto Check-Out
+
+  1. Updates
+    - Add `auto_closed` to attendance_records, set when a forgotten check-out was filled by the system
+    - Add `auto_close_reviewed` to attendance_records, set once a supervisor confirms or corrects it
+    - Add auto_checkout_mode and auto_checkout_hours settings
+
+  2. Notes
+    - auto_checkout_mode is one of off, shift_end, work_end, after_hours
+    - Individual system-closed sessions carry `auto_closed: true` inside `sessions`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'attendance_records' AND column_name = 'auto_closed'
+  ) THEN
+    ALTER TABLE attendance_records ADD COLUMN auto_closed boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'attendance_records' AND column_name = 'auto_close_reviewed'
+  ) THEN
+    ALTER TABLE attendance_records ADD COLUMN auto_close_reviewed boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+INSERT INTO settings (key, value, description) VALUES
+  ('auto_checkout_mode', 'off', 'Auto check-out policy: off, shift_end, work_end or after_hours'),
+  ('auto_checkout_hours', '12', 'Hours after check-in before an open session is closed automatically')
+ON CONFLICT (key) DO NOTHING;
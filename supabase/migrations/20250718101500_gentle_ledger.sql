@@ -0,0 +1,56 @@
+/*
+  # Manual Attendance Corrections
+
+  1. New Tables
+    - `attendance_audit_log`
+      - `id` (uuid, primary key)
+      - `attendance_record_id` (uuid, foreign key)
+      - `employee_id` (uuid, foreign key)
+      - `date` (date)
+      - `action` (text, create or update)
+      - `changed_by` (text, who made the change)
+      - `reason` (text, not null)
+      - `before` (jsonb, punches and totals before the change)
+      - `after` (jsonb, punches and totals after the change)
+      - `created_at` (timestamp)
+
+  2. Updates
+    - Add `manually_edited` to attendance_records
+
+  3. Security
+    - Enable RLS on attendance_audit_log with the same access as attendance_records
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'attendance_records' AND column_name = 'manually_edited'
+  ) THEN
+    ALTER TABLE attendance_records ADD COLUMN manually_edited boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS attendance_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attendance_record_id uuid REFERENCES attendance_records(id) ON DELETE SET NULL,
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  action text NOT NULL CHECK (action IN ('create', 'update')),
+  changed_by text NOT NULL,
+  reason text NOT NULL,
+  before jsonb,
+  after jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE attendance_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users on attendance_audit_log"
+  ON attendance_audit_log
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_log_employee_date ON attendance_audit_log(employee_id, date);
@@ -0,0 +1,33 @@
+/*
+  # Leave Management
+
+  1. Updates
+    - Add `leave_type` to leave_requests (annual, casual, sick, no_pay)
+    - Add `reviewed_by`, `reviewed_at` and `review_note` to leave_requests for supervisor decisions
+    - Add index for approved leave lookups by date
+
+  2. Notes
+    - Approved leave days are reported as "on leave" instead of absent
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leave_requests' AND column_name = 'leave_type'
+  ) THEN
+    ALTER TABLE leave_requests ADD COLUMN leave_type text NOT NULL DEFAULT 'annual'
+      CHECK (leave_type IN ('annual', 'casual', 'sick', 'no_pay'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leave_requests' AND column_name = 'reviewed_by'
+  ) THEN
+    ALTER TABLE leave_requests ADD COLUMN reviewed_by text;
+    ALTER TABLE leave_requests ADD COLUMN reviewed_at timestamptz;
+    ALTER TABLE leave_requests ADD COLUMN review_note text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_status_dates ON leave_requests(status, start_date, end_date);
@@ -0,0 +1,45 @@
+/*
+  # Leave Entitlements
+
+  1. New Tables
+    - `leave_entitlements`
+      - `id` (uuid, primary key)
+      - `employee_id` (uuid, foreign key)
+      - `year` (integer, calendar year)
+      - `leave_type` (text, annual, casual or sick)
+      - `days` (numeric, yearly entitlement)
+      - `accrual` (text, annual grants everything on 1 January, monthly earns 1/12 per month)
+      - `carry_forward_cap` (numeric, most unused days brought in from the previous year)
+      - `created_at` (timestamp)
+      - Unique constraint on (employee_id, year, leave_type)
+
+  2. Security
+    - Enable RLS on leave_entitlements with the same access as leave_requests
+
+  3. Notes
+    - Employees without a row use the application defaults (14 annual, 7 casual, 7 sick)
+    - No-pay leave has no entitlement
+*/
+
+CREATE TABLE IF NOT EXISTS leave_entitlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  year integer NOT NULL,
+  leave_type text NOT NULL CHECK (leave_type IN ('annual', 'casual', 'sick')),
+  days numeric(5,1) NOT NULL DEFAULT 0 CHECK (days >= 0),
+  accrual text NOT NULL DEFAULT 'annual' CHECK (accrual IN ('annual', 'monthly')),
+  carry_forward_cap numeric(5,1) NOT NULL DEFAULT 0 CHECK (carry_forward_cap >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(employee_id, year, leave_type)
+);
+
+ALTER TABLE leave_entitlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users on leave_entitlements"
+  ON leave_entitlements
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_leave_entitlements_year ON leave_entitlements(year);
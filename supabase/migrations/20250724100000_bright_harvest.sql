@@ -0,0 +1,40 @@
+/*
+  # Work Calendar
+
+  1. New Tables
+    - `holidays`
+      - `id` (uuid, primary key)
+      - `date` (date, unique)
+      - `name` (text, e.g. "Poson Full Moon Poya Day")
+      - `created_at` (timestamp)
+
+  2. Updates
+    - Add `work_pattern` setting: day types for Sunday to Saturday (full, half or off)
+
+  3. Security
+    - Enable RLS on holidays with the same access as settings
+
+  4. Notes
+    - Holidays and days off are not counted as absence
+    - Attendance on a holiday or day off is flagged for premium pay in reports
+*/
+
+CREATE TABLE IF NOT EXISTS holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  date date UNIQUE NOT NULL,
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users on holidays"
+  ON holidays
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO settings (key, value, description) VALUES
+  ('work_pattern', 'off,full,full,full,full,full,full', 'Work day type for Sunday to Saturday: full, half or off')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,37 @@
+/*
+  # Signed QR Credentials
+
+  1. Updates
+    - Add `qr_version` to employees (badge issue number, starts at 1)
+    - Add `qr_secret` to employees (per-employee key for badge signatures and rotating phone codes)
+    - Add `qr_legacy_codes_allowed` setting (old static EMP_ codes still accepted while 'true')
+    - Add `qr_rotating_required` setting (only rotating phone codes accepted when 'true')
+
+  2. Notes
+    - Existing employees get a random secret; their printed EMP_ badges keep working
+      until an admin closes the migration window in Settings
+    - The secret is 64 hex characters built from two random UUIDs so no extension is needed
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'qr_version'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN qr_version integer NOT NULL DEFAULT 1;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'qr_secret'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN qr_secret text NOT NULL
+      DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  END IF;
+END $$;
+
+INSERT INTO settings (key, value, description) VALUES
+  ('qr_legacy_codes_allowed', 'true', 'Accept old static EMP_ QR codes during the migration to signed badges'),
+  ('qr_rotating_required', 'false', 'Only accept rotating QR codes shown on the employee phone')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,41 @@
+/*
+  # Badge Reissue History
+
+  1. New Tables
+    - `badge_history`
+      - `id` (uuid, primary key)
+      - `employee_id` (uuid, foreign key)
+      - `qr_code` (text, the code printed on the revoked badge)
+      - `qr_version` (integer, badge version that was revoked)
+      - `reason` (text, e.g. lost, damaged)
+      - `revoked_at` (timestamp)
+
+  2. Security
+    - Enable RLS on badge_history with the same access as employees
+
+  3. Notes
+    - Reissuing a badge bumps `qr_version` and replaces `qr_secret`, so the old printed
+      badge and any phone badge link stop working
+    - The scanner uses this table to report a revoked badge with the employee's name
+*/
+
+CREATE TABLE IF NOT EXISTS badge_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  qr_code text NOT NULL,
+  qr_version integer NOT NULL,
+  reason text NOT NULL,
+  revoked_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE badge_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users on badge_history"
+  ON badge_history
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_badge_history_qr_code ON badge_history(qr_code);
+CREATE INDEX IF NOT EXISTS idx_badge_history_employee_version ON badge_history(employee_id, qr_version);
@@ -0,0 +1,58 @@
+/*
+  # Punch Photos
+
+  1. New Tables
+    - `punch_photos`
+      - `id` (uuid, primary key)
+      - `employee_id` (uuid, foreign key)
+      - `date` (date, attendance day the punch belongs to)
+      - `punched_at` (timestamp, matches the session check-in or check-out)
+      - `action` (text, check-in or check-out)
+      - `storage_ref` (text, "<store>:<path>", e.g. supabase:<employee>/<date>/<time>.jpg)
+      - `created_at` (timestamp)
+
+  2. Storage
+    - Private `punch-photos` bucket; the app reads photos through signed URLs
+
+  3. Updates
+    - Add `require_photo` setting (scanner captures a photo at every punch when 'true')
+
+  4. Security
+    - Enable RLS on punch_photos with the same access as attendance_records
+*/
+
+CREATE TABLE IF NOT EXISTS punch_photos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  punched_at timestamptz NOT NULL,
+  action text NOT NULL CHECK (action IN ('check-in', 'check-out')),
+  storage_ref text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE punch_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users on punch_photos"
+  ON punch_photos
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_punch_photos_employee_date ON punch_photos(employee_id, date);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('punch-photos', 'punch-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Enable all operations for authenticated users on punch-photos"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (bucket_id = 'punch-photos')
+  WITH CHECK (bucket_id = 'punch-photos');
+
+INSERT INTO settings (key, value, description) VALUES
+  ('require_photo', 'false', 'Capture a photo from the scanner camera at every punch')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,14 @@
+/*
+  # Kiosk Mode
+
+  1. Updates
+    - Add `kiosk_pin_hash` setting (SHA-256 of the admin PIN that unlocks a kiosk tablet)
+
+  2. Notes
+    - Empty until an admin sets a PIN in Settings; kiosk mode cannot be started without one
+    - The PIN itself is never stored
+*/
+
+INSERT INTO settings (key, value, description) VALUES
+  ('kiosk_pin_hash', '', 'Hash of the admin PIN required to leave kiosk mode')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,40 @@
+/*
+  # Scanner Device Registry
+
+  1. New Tables
+    - `scanner_devices`
+      - `id` (uuid, primary key)
+      - `name` (text, e.g. Gate Tablet)
+      - `location` (text, where the scanner is mounted)
+      - `token_hash` (text, SHA-256 of the token kept on the device)
+      - `enabled` (boolean, false once an admin disables a lost or stolen device)
+      - `last_seen_at` (timestamp)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on scanner_devices with the same access as employees
+
+  3. Notes
+    - Each punch in `attendance_records.sessions` carries the id of the device that
+      recorded it (`check_in_device` / `check_out_device`)
+    - Scans from a disabled or unregistered device are rejected
+*/
+
+CREATE TABLE IF NOT EXISTS scanner_devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  location text NOT NULL DEFAULT '',
+  token_hash text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  last_seen_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE scanner_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users on scanner_devices"
+  ON scanner_devices
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,59 @@
+/*
+  # Scan Event Log
+
+  1. New Tables
+    - `scan_events`
+      - `id` (uuid, primary key)
+      - `employee_id` (uuid, foreign key, null when the badge could not be matched)
+      - `device_id` (uuid, scanner device that took the scan)
+      - `scanned_at` (timestamp, when the badge was scanned)
+      - `source` (text, scanner or offline_queue)
+      - `payload` (text, the scanned QR data)
+      - `outcome` (text, accepted, rejected or invalid)
+      - `action` (text, check-in or check-out for accepted scans)
+      - `attendance_date` (date, the attendance day the scan was applied to)
+      - `reason` (text, why the scan was rejected)
+      - `recorded_at` (timestamp)
+
+  2. Security
+    - Enable RLS on scan_events
+    - Authenticated users can read and insert events; there are no update or
+      delete policies, so logged events cannot be changed
+
+  3. Notes
+    - Every scan is logged, including cooldown rejections and invalid QR attempts
+    - `attendance_records` is derived from the accepted and rejected events and can be
+      rebuilt from them under the current rules
+    - `device_id` has no foreign key so scans from a deleted registration are still logged
+*/
+
+CREATE TABLE IF NOT EXISTS scan_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id uuid REFERENCES employees(id) ON DELETE SET NULL,
+  device_id uuid,
+  scanned_at timestamptz NOT NULL,
+  source text NOT NULL DEFAULT 'scanner' CHECK (source IN ('scanner', 'offline_queue')),
+  payload text NOT NULL DEFAULT '',
+  outcome text NOT NULL CHECK (outcome IN ('accepted', 'rejected', 'invalid')),
+  action text CHECK (action IN ('check-in', 'check-out')),
+  attendance_date date,
+  reason text,
+  recorded_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE scan_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users on scan_events"
+  ON scan_events
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Enable insert for authenticated users on scan_events"
+  ON scan_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_scan_events_employee_date ON scan_events(employee_id, attendance_date);
+CREATE INDEX IF NOT EXISTS idx_scan_events_scanned_at ON scan_events(scanned_at);
@@ -0,0 +1,17 @@
+/*
+  # Cooldown and Anti-Passback Rules
+
+  1. Updates
+    - Add `checkout_cooldown_minutes` setting (minimum time from a check-in to its check-out)
+    - Add `checkin_cooldown_minutes` setting (minimum time from a check-out to the next check-in)
+    - Add `duplicate_scan_seconds` setting (repeat reads of a badge within this window are ignored)
+
+  2. Notes
+    - Both gaps apply to every session, not only the first
+*/
+
+INSERT INTO settings (key, value, description) VALUES
+  ('checkout_cooldown_minutes', '3', 'Minimum minutes between a check-in and its check-out'),
+  ('checkin_cooldown_minutes', '3', 'Minimum minutes between a check-out and the next check-in'),
+  ('duplicate_scan_seconds', '2', 'Seconds during which repeat reads of the same badge are ignored')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,30 @@
+/*
+  # Manual PIN Punches
+
+  1. Updates
+    - Add `pin_hash` to employees (SHA-256 of the personal PIN used when a badge cannot be scanned)
+    - Add `method` to scan_events (qr for camera scans, pin for manual lookups confirmed with a PIN)
+
+  2. Notes
+    - `pin_hash` is null until an admin sets a PIN; those employees cannot punch by PIN
+    - The PIN itself is never stored
+    - Punches entered by PIN are also flagged in `attendance_records.sessions`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'pin_hash'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN pin_hash text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'scan_events' AND column_name = 'method'
+  ) THEN
+    ALTER TABLE scan_events ADD COLUMN method text NOT NULL DEFAULT 'qr'
+      CHECK (method IN ('qr', 'pin'));
+  END IF;
+END $$;
@@ -0,0 +1,34 @@
+/*
+  # Keyboard-Wedge Scanner Input
+
+  1. Updates
+    - Add `input_mode` to scanner_devices (camera, or wedge for a USB/Bluetooth handheld
+      scanner that types the code followed by Enter)
+    - Add `badge_symbology` to scanner_devices (badges the handheld scanner accepts: qr,
+      code128 or any)
+
+  2. Notes
+    - Existing devices stay on the camera and accept any badge
+    - The camera keeps running in wedge mode for punch photos
+    - The symbology is checked from the AIM identifier (]Q for QR, ]C for Code128) when
+      the handheld scanner is set to send one; codes without it are accepted as they are
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'scanner_devices' AND column_name = 'input_mode'
+  ) THEN
+    ALTER TABLE scanner_devices ADD COLUMN input_mode text NOT NULL DEFAULT 'camera'
+      CHECK (input_mode IN ('camera', 'wedge'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'scanner_devices' AND column_name = 'badge_symbology'
+  ) THEN
+    ALTER TABLE scanner_devices ADD COLUMN badge_symbology text NOT NULL DEFAULT 'any'
+      CHECK (badge_symbology IN ('any', 'qr', 'code128'));
+  END IF;
+END $$;
@@ -0,0 +1,15 @@
+/*
+  # Image Scans
+
+  1. Updates
+    - Allow `image` as a scan_events source, for badges decoded from uploaded, pasted or
+      batch photos
+
+  2. Notes
+    - Uploaded photos are punched at the time the photo was taken and kept as the
+      punch photo
+*/
+
+ALTER TABLE scan_events DROP CONSTRAINT IF EXISTS scan_events_source_check;
+ALTER TABLE scan_events ADD CONSTRAINT scan_events_source_check
+  CHECK (source IN ('scanner', 'offline_queue', 'image'));
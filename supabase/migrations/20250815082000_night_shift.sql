@@ -0,0 +1,15 @@
+/*
+  # Automatic Torch
+
+  1. Updates
+    - Add `auto_torch_light_level` setting (camera light level, in percent, below which the
+      scanner turns on the torch)
+
+  2. Notes
+    - The torch turns off again once the light recovers well above the level
+    - 0 turns automatic control off; the flash button still works
+*/
+
+INSERT INTO settings (key, value, description) VALUES
+  ('auto_torch_light_level', '12', 'Light level (%) below which the scanner turns on the torch')
+ON CONFLICT (key) DO NOTHING;
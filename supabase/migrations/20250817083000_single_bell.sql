@@ -0,0 +1,35 @@
+/*
+  # Absence Alert Runs
+
+  1. New Tables
+    - `absence_alert_runs`
+      - `date` (date, primary key, the attendance day the absence alerts were sent for)
+      - `claimed_at` (timestamp)
+
+  2. Security
+    - Enable RLS on absence_alert_runs
+    - Authenticated users can read and insert runs; there are no update or delete policies
+
+  3. Notes
+    - Every open client checks the cut-off; the first to insert the day's row sends the
+      alerts and the others see the unique date and skip, so managers are alerted once
+*/
+
+CREATE TABLE IF NOT EXISTS absence_alert_runs (
+  date date PRIMARY KEY,
+  claimed_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE absence_alert_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users on absence_alert_runs"
+  ON absence_alert_runs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Enable insert for authenticated users on absence_alert_runs"
+  ON absence_alert_runs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
@@ -0,0 +1,24 @@
+/*
+  # Read-only Attendance Audit Trail
+
+  1. Security
+    - Replace the FOR ALL policy on attendance_audit_log with SELECT and INSERT policies
+    - There are no update or delete policies, so audit entries cannot be changed or removed
+
+  2. Notes
+    - Records a correction leaves behind are kept exactly as written, like scan_events
+*/
+
+DROP POLICY IF EXISTS "Enable all operations for authenticated users on attendance_audit_log" ON attendance_audit_log;
+
+CREATE POLICY "Enable read access for authenticated users on attendance_audit_log"
+  ON attendance_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Enable insert for authenticated users on attendance_audit_log"
+  ON attendance_audit_log
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
@@ -0,0 +1,127 @@
+/*
+  # Server-side PIN Checks
+
+  1. New Tables
+    - `pin_secrets`
+      - `subject` (text, primary key, what the PIN unlocks, e.g. kiosk)
+      - `pin_hash` (text, bcrypt hash of the PIN)
+      - `updated_at` (timestamp)
+    - `pin_attempts`
+      - `subject` (text, primary key)
+      - `failures` (integer, wrong PINs since the last success or lockout)
+      - `locked_until` (timestamp, no PIN is checked before this time)
+
+  2. Functions
+    - `check_pin(subject, pin)` compares a PIN with its bcrypt hash and counts failures;
+      5 wrong PINs lock the subject for 5 minutes. Not callable by clients
+    - `set_kiosk_pin(new_pin)` stores the kiosk admin PIN and sets `kiosk_pin_set`
+    - `verify_kiosk_pin(pin)` checks the kiosk admin PIN
+
+  3. Security
+    - RLS is enabled on both tables with no policies, so clients can neither read the
+      hashes nor reset the attempt counter; only the functions above touch them
+
+  4. Notes
+    - Replaces the `kiosk_pin_hash` setting, an unsalted SHA-256 readable by every client.
+      It cannot be converted, so the kiosk admin PIN has to be set again in Settings
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS pin_secrets (
+  subject text PRIMARY KEY,
+  pin_hash text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS pin_attempts (
+  subject text PRIMARY KEY,
+  failures integer NOT NULL DEFAULT 0,
+  locked_until timestamptz
+);
+
+ALTER TABLE pin_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pin_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION check_pin(pin_subject text, pin text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  stored_hash text;
+  attempt pin_attempts%ROWTYPE;
+  failed integer;
+BEGIN
+  SELECT pin_hash INTO stored_hash FROM pin_secrets WHERE subject = pin_subject;
+  IF stored_hash IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_set');
+  END IF;
+
+  SELECT * INTO attempt FROM pin_attempts WHERE subject = pin_subject FOR UPDATE;
+  IF attempt.locked_until > now() THEN
+    RETURN jsonb_build_object('status', 'locked', 'retry_after', ceil(extract(epoch FROM attempt.locked_until - now())));
+  END IF;
+
+  IF crypt(pin, stored_hash) = stored_hash THEN
+    DELETE FROM pin_attempts WHERE subject = pin_subject;
+    RETURN jsonb_build_object('status', 'ok');
+  END IF;
+
+  -- The count starts over once a lockout has passed
+  failed := CASE WHEN attempt.locked_until IS NULL THEN COALESCE(attempt.failures, 0) ELSE 0 END + 1;
+  INSERT INTO pin_attempts (subject, failures, locked_until)
+  VALUES (pin_subject, failed, CASE WHEN failed >= 5 THEN now() + interval '5 minutes' END)
+  ON CONFLICT (subject) DO UPDATE SET failures = EXCLUDED.failures, locked_until = EXCLUDED.locked_until;
+
+  IF failed >= 5 THEN
+    RETURN jsonb_build_object('status', 'locked', 'retry_after', 300);
+  END IF;
+  RETURN jsonb_build_object('status', 'wrong');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION check_pin(text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_kiosk_pin(new_pin text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF new_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'Kiosk admin PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO pin_secrets (subject, pin_hash)
+  VALUES ('kiosk', crypt(new_pin, gen_salt('bf', 10)))
+  ON CONFLICT (subject) DO UPDATE SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+  DELETE FROM pin_attempts WHERE subject = 'kiosk';
+
+  INSERT INTO settings (key, value, description)
+  VALUES ('kiosk_pin_set', 'true', 'Whether a kiosk admin PIN has been set')
+  ON CONFLICT (key) DO UPDATE SET value = 'true', updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_kiosk_pin(pin text)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT check_pin('kiosk', pin);
+$$;
+
+REVOKE ALL ON FUNCTION set_kiosk_pin(text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION verify_kiosk_pin(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_kiosk_pin(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_kiosk_pin(text) TO authenticated;
+
+DELETE FROM settings WHERE key = 'kiosk_pin_hash';
+
+INSERT INTO settings (key, value, description) VALUES
+  ('kiosk_pin_set', '', 'Whether a kiosk admin PIN has been set')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,60 @@
+/*
+  # Server-side Employee PINs
+
+  1. Functions
+    - `set_employee_pin(employee_id, new_pin)` stores an employee's personal PIN as a bcrypt
+      hash in `pin_secrets` under the subject `employee:<id>`
+    - `verify_employee_pin(employee_id, pin)` checks it with `check_pin`, so wrong PINs are
+      counted and locked out in `pin_attempts` for every device alike
+
+  2. Updates
+    - Drop `pin_hash` from employees; it was a fast SHA-256 readable by every client, so a 4-6 digit PIN could be brute-forced offline
+
+  3. Notes
+    - The old hashes cannot be converted, so employees who punch by PIN need a new PIN set
+    - Inactive employees are treated as having no PIN
+*/
+
+CREATE OR REPLACE FUNCTION set_employee_pin(employee_id uuid, new_pin text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  pin_subject text := 'employee:' || employee_id;
+BEGIN
+  IF new_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'The PIN must be 4 to 6 digits';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM employees WHERE id = employee_id) THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  INSERT INTO pin_secrets (subject, pin_hash)
+  VALUES (pin_subject, crypt(new_pin, gen_salt('bf', 10)))
+  ON CONFLICT (subject) DO UPDATE SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+  DELETE FROM pin_attempts WHERE subject = pin_subject;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_employee_pin(employee_id uuid, pin text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM employees WHERE id = employee_id AND is_active) THEN
+    RETURN jsonb_build_object('status', 'not_set');
+  END IF;
+  RETURN check_pin('employee:' || employee_id, pin);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION set_employee_pin(uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION verify_employee_pin(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_employee_pin(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_employee_pin(uuid, text) TO authenticated;
+
+ALTER TABLE employees DROP COLUMN IF EXISTS pin_hash;
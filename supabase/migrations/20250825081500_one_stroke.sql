@@ -0,0 +1,52 @@
+/*
+  # Atomic Badge Reissue
+
+  1. Functions
+    - `reissue_badge(employee_id, from_version, new_qr_code, new_secret, reason)` revokes the
+      current badge and records it in `badge_history` in one transaction
+
+  2. Notes
+    - Before, the employee row and the history row were written separately, so a failed
+      history insert left a revoked badge the scanner could not explain
+    - Only reissues from `from_version`, so two admins cannot reissue over each other
+*/
+
+CREATE OR REPLACE FUNCTION reissue_badge(
+  employee_id uuid,
+  from_version integer,
+  new_qr_code text,
+  new_secret text,
+  reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revoked_code text;
+BEGIN
+  IF trim(coalesce(reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required to reissue a badge';
+  END IF;
+
+  SELECT qr_code INTO revoked_code
+  FROM employees
+  WHERE id = employee_id AND qr_version = from_version
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This badge has already been reissued. Refresh and try again';
+  END IF;
+
+  UPDATE employees
+  SET qr_code = new_qr_code, qr_version = from_version + 1, qr_secret = new_secret
+  WHERE id = employee_id;
+
+  INSERT INTO badge_history (employee_id, qr_code, qr_version, reason)
+  VALUES (employee_id, revoked_code, from_version, trim(reason));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reissue_badge(uuid, integer, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reissue_badge(uuid, integer, text, text, text) TO authenticated;
@@ -0,0 +1,225 @@
+/*
+  # Server-side Badge Secrets
+
+  1. New Tables
+    - `badge_secrets`
+      - `employee_id` (uuid, primary key, foreign key)
+      - `secret` (text, per-employee key for badge signatures and rotating phone codes)
+      - `updated_at` (timestamp)
+
+  2. Functions
+    - `badge_payload(secret, employee_id, version)` builds the signed printed badge. Not callable by clients
+    - `badge_rotating_code(secret, step)` the 6-digit HOTP phone code for a 30-second step. Not callable by clients
+    - `signed_badge(employee_id)` the current printed badge, for showing and printing it
+    - `phone_badge_secret(employee_id)` the secret for an employee's phone badge enrolment link
+    - `verify_badge(employee_id, badge_version, kind, proof, scanned_at)` checks a signed
+      badge or rotating code against the employee's current secret and version
+    - `reissue_badge(employee_id, from_version, reason)` now creates the new secret and badge itself
+    - New employees get a secret and a signed `qr_code` from an insert trigger
+
+  3. Security
+    - RLS is enabled on badge_secrets with no policies, so clients can no longer read secrets
+      and mint badges; only the functions above touch them
+
+  4. Updates
+    - Move `qr_secret` from employees into badge_secrets and drop the column
+
+  5. Notes
+    - Existing secrets are moved as they are, so printed badges and phone links keep working.
+      They were readable by every client until now; reissue a badge to replace its secret
+    - The foreign key is checked at commit, so the insert trigger can store the secret
+      before the employee row exists
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS badge_secrets (
+  employee_id uuid PRIMARY KEY REFERENCES employees(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  secret text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE badge_secrets ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'qr_secret'
+  ) THEN
+    INSERT INTO badge_secrets (employee_id, secret)
+    SELECT id, qr_secret FROM employees
+    ON CONFLICT (employee_id) DO NOTHING;
+
+    ALTER TABLE employees DROP COLUMN qr_secret;
+  END IF;
+END $$;
+
+-- Same format as the client used: BDA1.<id>.<version>.<first 16 bytes of HMAC-SHA-256, base64url>
+CREATE OR REPLACE FUNCTION badge_payload(secret text, employee_id uuid, version integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT 'BDA1.' || employee_id || '.' || version || '.' || rtrim(translate(encode(
+    substring(hmac(convert_to(employee_id || '.' || version, 'UTF8'), decode(secret, 'hex'), 'sha256') FROM 1 FOR 16),
+    'base64'
+  ), '+/', '-_'), '=');
+$$;
+
+-- HOTP (RFC 4226) over the time step with HMAC-SHA-256, matching the phone badge
+CREATE OR REPLACE FUNCTION badge_rotating_code(secret text, step bigint)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  mac bytea := hmac(int8send(step), decode(secret, 'hex'), 'sha256');
+  byte_offset integer;
+  binary_code bigint;
+BEGIN
+  byte_offset := get_byte(mac, 31) & 15;
+  binary_code := ((get_byte(mac, byte_offset) & 127)::bigint << 24)
+    | (get_byte(mac, byte_offset + 1)::bigint << 16)
+    | (get_byte(mac, byte_offset + 2)::bigint << 8)
+    | get_byte(mac, byte_offset + 3)::bigint;
+  RETURN lpad((binary_code % 1000000)::text, 6, '0');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION badge_payload(text, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION badge_rotating_code(text, bigint) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION issue_badge()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  new_secret text := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  INSERT INTO badge_secrets (employee_id, secret) VALUES (NEW.id, new_secret);
+  NEW.qr_code := badge_payload(new_secret, NEW.id, NEW.qr_version);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS employees_issue_badge ON employees;
+CREATE TRIGGER employees_issue_badge
+  BEFORE INSERT ON employees
+  FOR EACH ROW EXECUTE FUNCTION issue_badge();
+
+CREATE OR REPLACE FUNCTION signed_badge(employee_id uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT badge_payload(s.secret, e.id, e.qr_version)
+  FROM employees e
+  JOIN badge_secrets s ON s.employee_id = e.id
+  WHERE e.id = signed_badge.employee_id;
+$$;
+
+CREATE OR REPLACE FUNCTION phone_badge_secret(employee_id uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT secret FROM badge_secrets WHERE badge_secrets.employee_id = phone_badge_secret.employee_id;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_badge(
+  employee_id uuid,
+  badge_version integer,
+  kind text,
+  proof text,
+  scanned_at timestamptz
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  stored_secret text;
+  current_version integer;
+  step bigint;
+BEGIN
+  SELECT s.secret, e.qr_version INTO stored_secret, current_version
+  FROM employees e
+  JOIN badge_secrets s ON s.employee_id = e.id
+  WHERE e.id = verify_badge.employee_id AND e.is_active;
+
+  IF stored_secret IS NULL OR current_version <> badge_version THEN
+    RETURN false;
+  END IF;
+
+  IF kind = 'signed' THEN
+    RETURN proof = split_part(badge_payload(stored_secret, verify_badge.employee_id, badge_version), '.', 4);
+  END IF;
+
+  IF kind = 'rotating' THEN
+    -- The previous and next code are accepted too, for clock drift between phone and scanner
+    step := floor(extract(epoch FROM scanned_at) / 30);
+    FOR drift IN -1..1 LOOP
+      IF proof = badge_rotating_code(stored_secret, step + drift) THEN
+        RETURN true;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS reissue_badge(uuid, integer, text, text, text);
+
+CREATE OR REPLACE FUNCTION reissue_badge(employee_id uuid, from_version integer, reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  revoked_code text;
+  new_secret text := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  IF trim(coalesce(reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required to reissue a badge';
+  END IF;
+
+  SELECT qr_code INTO revoked_code
+  FROM employees
+  WHERE id = reissue_badge.employee_id AND qr_version = from_version
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This badge has already been reissued. Refresh and try again';
+  END IF;
+
+  UPDATE employees
+  SET qr_code = badge_payload(new_secret, id, from_version + 1), qr_version = from_version + 1
+  WHERE id = reissue_badge.employee_id;
+
+  INSERT INTO badge_secrets (employee_id, secret)
+  VALUES (reissue_badge.employee_id, new_secret)
+  ON CONFLICT ON CONSTRAINT badge_secrets_pkey DO UPDATE SET secret = EXCLUDED.secret, updated_at = now();
+
+  INSERT INTO badge_history (employee_id, qr_code, qr_version, reason)
+  VALUES (reissue_badge.employee_id, revoked_code, from_version, trim(reason));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION signed_badge(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION phone_badge_secret(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION verify_badge(uuid, integer, text, text, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION reissue_badge(uuid, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION signed_badge(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION phone_badge_secret(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_badge(uuid, integer, text, text, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION reissue_badge(uuid, integer, text) TO authenticated;